@@ -2,9 +2,12 @@ import React, { useState, useEffect, useRef } from 'react';
 import DataUploader from './components/DataUploader';
 import TemplateSelector from './components/TemplateSelector';
 import ReportWorkspace from './components/ReportWorkspace';
+import ReportGenerator from './components/ReportGenerator';
 import LlmSettingsPanel from './components/LlmSettingsPanel';
 import { Template, ViewState, ExcelData } from './types';
-import { FileSpreadsheet, FileText, CheckCircle } from 'lucide-react';
+import { withNewVersion } from './utils/templateVersions';
+import { templateRepository, datasetRepository } from './services/storageService';
+import { FileSpreadsheet, FileText, CheckCircle, AlertTriangle, X } from 'lucide-react';
 
 const App: React.FC = () => {
   const [view, setView] = useState<ViewState>('upload-data');
@@ -13,23 +16,39 @@ const App: React.FC = () => {
   const [excelData, setExcelData] = useState<ExcelData | null>(null);
   const [activeTemplate, setActiveTemplate] = useState<Template | null>(null);
   const [templates, setTemplates] = useState<Template[]>([]);
+  const [storageError, setStorageError] = useState<string | null>(null);
   const scrollTimeoutRef = useRef<number | null>(null);
 
-  // Load templates persistence
+  // Load templates and the last uploaded dataset from IndexedDB
   useEffect(() => {
-    const saved = localStorage.getItem('smartdoc_templates');
-    if (saved) {
+    let cancelled = false;
+    const load = async () => {
       try {
-        setTemplates(JSON.parse(saved));
-      } catch (e) {
+        const [storedTemplates, storedData] = await Promise.all([
+          templateRepository.list(),
+          datasetRepository.getCurrent()
+        ]);
+        if (cancelled) return;
+        setTemplates(storedTemplates);
+        if (storedData) {
+          setExcelData(storedData);
+          setView(prev => prev === 'upload-data' ? 'select-template' : prev);
+        }
+      } catch (e: any) {
         console.error("Failed to load templates", e);
+        if (!cancelled) setStorageError(`无法读取本地数据: ${e?.message || e}`);
       }
-    }
+    };
+    load();
+    return () => { cancelled = true; };
   }, []);
 
-  useEffect(() => {
-    localStorage.setItem('smartdoc_templates', JSON.stringify(templates));
-  }, [templates]);
+  const persist = (task: Promise<void>) => {
+    task.catch((e: any) => {
+      console.error("Failed to persist data", e);
+      setStorageError(`保存到本地数据库失败: ${e?.message || e}`);
+    });
+  };
 
   useEffect(() => {
     const handleScroll = () => {
@@ -54,6 +73,7 @@ const App: React.FC = () => {
   // Workflow Handlers
   const handleDataLoaded = (data: ExcelData) => {
     setExcelData(data);
+    persist(datasetRepository.saveCurrent(data));
     setView('select-template');
   };
 
@@ -62,27 +82,56 @@ const App: React.FC = () => {
     setView('workspace');
   };
 
+  const handleMailMerge = (template: Template) => {
+    setActiveTemplate(template);
+    setView('mail-merge');
+  };
+
   const handleCreateTemplate = (newTemplate: Template) => {
-    setTemplates(prev => [newTemplate, ...prev]);
+    const versioned = withNewVersion(undefined, newTemplate, 'Created');
+    setTemplates(prev => [versioned, ...prev]);
+    persist(templateRepository.save(versioned));
     // Automatically select the new template and move forward
-    setActiveTemplate(newTemplate);
+    setActiveTemplate(versioned);
     setView('workspace');
   };
 
-  const handleUpdateTemplate = (updatedTemplate: Template) => {
-    setTemplates(prev => prev.map(t => t.id === updatedTemplate.id ? updatedTemplate : t));
-    setActiveTemplate(updatedTemplate);
+  // Every save is recorded as a version so earlier templates can be restored
+  const handleUpdateTemplate = (updatedTemplate: Template, note?: string) => {
+    const previous = templates.find(t => t.id === updatedTemplate.id);
+    const versioned = withNewVersion(previous, updatedTemplate, note);
+    setTemplates(prev => prev.map(t => t.id === versioned.id ? versioned : t));
+    persist(templateRepository.save(versioned));
+    setActiveTemplate(versioned);
+  };
+
+  // Imported templates are upserted; existing ids were already resolved by the import plan
+  const handleImportTemplates = (imported: Template[]) => {
+    const existingById = new Map<string, Template>(templates.map(t => [t.id, t]));
+    const saved = imported.map(t => withNewVersion(existingById.get(t.id), t, 'Imported from bundle'));
+    const savedById = new Map<string, Template>(saved.map(t => [t.id, t]));
+    setTemplates(prev => [
+      ...saved.filter(t => !existingById.has(t.id)),
+      ...prev.map(t => savedById.get(t.id) ?? t)
+    ]);
+    saved.forEach(t => persist(templateRepository.save(t)));
+    if (activeTemplate && savedById.has(activeTemplate.id)) {
+      setActiveTemplate(savedById.get(activeTemplate.id)!);
+    }
   };
 
   const handleDeleteTemplate = (id: string) => {
     setTemplates(prev => prev.filter(t => t.id !== id));
+    persist(templateRepository.remove(id));
     if (activeTemplate?.id === id) {
       setActiveTemplate(null);
     }
   };
 
   const handleRenameTemplate = (id: string, name: string) => {
+    const target = templates.find(t => t.id === id);
     setTemplates(prev => prev.map(t => t.id === id ? { ...t, name } : t));
+    if (target) persist(templateRepository.save({ ...target, name }));
     if (activeTemplate?.id === id) {
       setActiveTemplate(prev => (prev ? { ...prev, name } : prev));
     }
@@ -98,7 +147,8 @@ const App: React.FC = () => {
     return (
       <div className="flex items-center space-x-2 md:space-x-4 text-sm">
         {steps.map((step, index) => {
-          const isActive = view === step.id;
+          // Mail merge is the row-by-row alternative to the workspace
+          const isActive = view === step.id || (view === 'mail-merge' && step.id === 'workspace');
           const isCompleted = 
             (step.id === 'upload-data' && excelData) || 
             (step.id === 'select-template' && activeTemplate);
@@ -135,6 +185,15 @@ const App: React.FC = () => {
       </nav>
 
       <main className="flex-1 max-w-7xl mx-auto w-full px-4 sm:px-6 lg:px-8 py-8">
+        {storageError && (
+          <div className="mb-4 flex items-center justify-between gap-3 text-red-600 bg-red-50 px-4 py-2 rounded-md text-sm border border-red-100">
+            <span className="flex items-center gap-2"><AlertTriangle size={16} /> {storageError}</span>
+            <button onClick={() => setStorageError(null)} className="text-red-400 hover:text-red-600">
+              <X size={16} />
+            </button>
+          </div>
+        )}
+
         {view === 'upload-data' && (
           <DataUploader onDataLoaded={handleDataLoaded} />
         )}
@@ -143,7 +202,10 @@ const App: React.FC = () => {
           <TemplateSelector 
             templates={templates}
             onSelect={handleTemplateSelected}
+            onMailMerge={handleMailMerge}
             onCreate={handleCreateTemplate}
+            onUpdate={handleUpdateTemplate}
+            onImport={handleImportTemplates}
             onDelete={handleDeleteTemplate}
             onRename={handleRenameTemplate}
             onBack={() => setView('upload-data')}
@@ -159,6 +221,17 @@ const App: React.FC = () => {
             onBack={() => setView('select-template')}
           />
         )}
+
+        {view === 'mail-merge' && activeTemplate && (
+          <div className="h-[calc(100vh-130px)] rounded-xl border border-slate-200 overflow-hidden">
+            <ReportGenerator
+              key={activeTemplate.id}
+              template={activeTemplate}
+              data={excelData ?? undefined}
+              onBack={() => setView('select-template')}
+            />
+          </div>
+        )}
       </main>
 
       <LlmSettingsPanel />
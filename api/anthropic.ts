@@ -0,0 +1,53 @@
+import { createAnthropicClient } from "../services/llmClient.js";
+import { executeLLMAction, isLLMAction, validateLLMActionRequest } from "../services/llmActions.js";
+
+export default async function handler(req: any, res: any) {
+  // Enable CORS for all origins (or restrict to your domain in production)
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,OPTIONS,PATCH,DELETE,POST,PUT');
+  res.setHeader('Access-Control-Allow-Headers', 'X-CSRF-Token, X-Requested-With, Accept, Accept-Version, Content-Length, Content-MD5, Content-Type, Date, X-Api-Version');
+
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  try {
+    const body = req.body || {};
+    const { action, config } = body;
+    console.log(`🔍 Anthropic serverless handler called with action: ${action}`);
+    const endpoint = config?.endpoint;
+    const model = config?.model;
+    const apiKey = config?.apiKey;
+
+    if (!endpoint || !model || !apiKey) {
+      console.error('❌ Missing required config:', { endpoint: !!endpoint, model: !!model, apiKey: !!apiKey });
+      res.status(400).json({ error: 'endpoint, model, apiKey are required' });
+      return;
+    }
+
+    if (!isLLMAction(action)) {
+      res.status(400).json({ error: 'Unknown action' });
+      return;
+    }
+
+    const invalid = validateLLMActionRequest(action, body);
+    if (invalid) {
+      console.error(`❌ Invalid ${action} request: ${invalid}`);
+      res.status(400).json({ error: invalid });
+      return;
+    }
+
+    const client = createAnthropicClient({ endpoint, model, apiKey });
+    const result = await executeLLMAction(client, action, body);
+    res.status(200).json(result);
+  } catch (error: any) {
+    res.status(500).json({ error: error?.message || 'Failed to call Anthropic service.' });
+  }
+}
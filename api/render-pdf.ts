@@ -0,0 +1,61 @@
+import { readFile } from "node:fs/promises";
+import { createRequire } from "node:module";
+import { renderMarkdownToPdf, PdfFontData } from "../utils/pdfRenderer.js";
+
+const require = createRequire(import.meta.url);
+
+let fontsPromise: Promise<PdfFontData> | null = null;
+
+// Same Noto Sans SC files the browser bundles (see utils/pdfFonts.ts); literal paths so the function tracer ships them
+const loadFonts = (): Promise<PdfFontData> => {
+  if (!fontsPromise) {
+    fontsPromise = Promise.all([
+      readFile(require.resolve('@expo-google-fonts/noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf')),
+      readFile(require.resolve('@expo-google-fonts/noto-sans-sc/700Bold/NotoSansSC_700Bold.ttf'))
+    ]).then(([regular, bold]) => ({ regular, bold }));
+  }
+  return fontsPromise;
+};
+
+export default async function handler(req: any, res: any) {
+  // Enable CORS for all origins (or restrict to your domain in production)
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,OPTIONS,PATCH,DELETE,POST,PUT');
+  res.setHeader('Access-Control-Allow-Headers', 'X-CSRF-Token, X-Requested-With, Accept, Accept-Version, Content-Length, Content-MD5, Content-Type, Date, X-Api-Version');
+
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  try {
+    const { markdown, title, header, footer } = req.body || {};
+
+    if (typeof markdown !== 'string' || !markdown.trim()) {
+      res.status(400).json({ error: 'markdown is required' });
+      return;
+    }
+
+    console.log(`📄 Rendering PDF (${markdown.length} chars)`);
+
+    const pdf = await renderMarkdownToPdf(markdown, await loadFonts(), {
+      title: typeof title === 'string' ? title : undefined,
+      header: typeof header === 'string' ? header : undefined,
+      footer: typeof footer === 'string' || footer === null ? footer : undefined
+    });
+
+    const fileName = `${(typeof title === 'string' && title.trim()) || 'Report'}.pdf`;
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="report.pdf"; filename*=UTF-8''${encodeURIComponent(fileName)}`);
+    res.status(200).send(Buffer.from(pdf));
+  } catch (error) {
+    console.error('PDF render error:', error);
+    res.status(500).json({ error: 'Failed to render PDF.' });
+  }
+}
@@ -0,0 +1,64 @@
+#!/usr/bin/env node
+
+/**
+ * PDF 字体检查脚本
+ * 用 pdf-lib 渲染管线导出一份中英文混排的报告，再用 pdfjs 读回文本，
+ * 确认中文标题、标签与表格内容没有丢字（例如变成 ?）。
+ */
+
+import { build } from 'esbuild';
+import { readFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+
+const require = createRequire(import.meta.url);
+
+const SAMPLE = `# 化学品安全技术说明书
+
+**产品名称**: ABC 清洁剂
+
+| 序号 | 成分 | 含量 |
+| --- | --- | --- |
+| 1 | 乙醇 Ethanol | 30% |
+| 2 | 水 | 70% |
+`;
+
+const EXPECTED = ['化学品安全技术说明书', '产品名称', 'ABC 清洁剂', '序号', '含量', '乙醇 Ethanol', '水'];
+
+console.log('🔍 检查 PDF 中文字体...\n');
+
+// Bundle the TypeScript renderer so plain Node can run it
+const bundle = await build({
+  entryPoints: ['utils/pdfRenderer.ts'],
+  bundle: true,
+  platform: 'node',
+  format: 'esm',
+  write: false,
+  logLevel: 'error'
+});
+const rendererSource = bundle.outputFiles[0].text;
+const { renderMarkdownToPdf } = await import(`data:text/javascript;base64,${Buffer.from(rendererSource).toString('base64')}`);
+
+const fonts = {
+  regular: await readFile(require.resolve('@expo-google-fonts/noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf')),
+  bold: await readFile(require.resolve('@expo-google-fonts/noto-sans-sc/700Bold/NotoSansSC_700Bold.ttf'))
+};
+
+const pdf = await renderMarkdownToPdf(SAMPLE, fonts, { title: '字体检查', footer: null });
+
+const { getDocument } = await import('pdfjs-dist/legacy/build/pdf.mjs');
+const doc = await getDocument({ data: new Uint8Array(pdf), verbosity: 0 }).promise;
+const page = await doc.getPage(1);
+const content = await page.getTextContent();
+const text = content.items.map(item => item.str).join('');
+
+const missing = EXPECTED.filter(fragment => !text.includes(fragment));
+
+console.log(`📄 PDF 大小: ${(pdf.length / 1024).toFixed(0)} KB`);
+console.log(`📝 读回文本: ${text.replace(/\s+/g, ' ').slice(0, 120)}\n`);
+
+if (missing.length > 0) {
+  console.log(`❌ 以下内容未能完整导出: ${missing.join('、')}`);
+  process.exit(1);
+}
+
+console.log('✅ 中文内容完整保留');
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { ColumnSynonymGroup } from '../types';
+import { DEFAULT_COLUMN_SYNONYMS } from '../utils/columnMapping';
+import { BookOpen, Plus, RotateCcw, Trash2, X } from 'lucide-react';
+
+interface ColumnSynonymsEditorProps {
+  synonyms: ColumnSynonymGroup[];
+  onSave: (synonyms: ColumnSynonymGroup[]) => void;
+  onClose: () => void;
+}
+
+interface DraftGroup {
+  name: string;
+  terms: string; // Comma separated while editing
+}
+
+const toDraft = (groups: ColumnSynonymGroup[]): DraftGroup[] =>
+  groups.map(group => ({ name: group.name, terms: group.terms.join(', ') }));
+
+const ColumnSynonymsEditor: React.FC<ColumnSynonymsEditorProps> = ({ synonyms, onSave, onClose }) => {
+  const [groups, setGroups] = useState<DraftGroup[]>(() => toDraft(synonyms));
+
+  const updateAt = (index: number, patch: Partial<DraftGroup>) => {
+    setGroups(prev => prev.map((group, i) => (i === index ? { ...group, ...patch } : group)));
+  };
+
+  const handleSave = () => {
+    const cleaned = groups
+      .map(group => ({
+        name: group.name.trim(),
+        terms: group.terms.split(/[,，]/).map(term => term.trim()).filter(Boolean)
+      }))
+      .filter(group => group.terms.length > 0)
+      .map(group => ({ ...group, name: group.name || group.terms[0] }));
+    onSave(cleaned);
+  };
+
+  const inputClass = "px-2 py-1.5 rounded border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-sm text-slate-900 dark:text-white placeholder:text-slate-400 focus:ring-1 focus:ring-blue-500 outline-none";
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[60] flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-slate-900 rounded-xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col border border-slate-200 dark:border-slate-800">
+        <div className="p-4 border-b border-slate-100 dark:border-slate-800 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <BookOpen size={18} className="text-blue-600" />
+            <h3 className="font-bold text-slate-800 dark:text-white">Column Synonyms</h3>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">
+            表头包含同一组中的任一词语时视为同一列（不区分大小写），多个词语用逗号分隔。
+          </p>
+          {groups.map((group, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={group.name}
+                onChange={(e) => updateAt(index, { name: e.target.value })}
+                placeholder="Group"
+                className={`${inputClass} w-32 font-semibold`}
+              />
+              <input
+                type="text"
+                value={group.terms}
+                onChange={(e) => updateAt(index, { terms: e.target.value })}
+                placeholder="e.g. 含量, content, %"
+                className={`${inputClass} flex-1`}
+              />
+              <button
+                onClick={() => setGroups(prev => prev.filter((_, i) => i !== index))}
+                className="p-1.5 text-slate-400 hover:text-red-600"
+                aria-label="Remove synonym group"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => setGroups(prev => [...prev, { name: '', terms: '' }])}
+            className="flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 hover:text-blue-800 font-medium pt-1"
+          >
+            <Plus size={12} /> Add group
+          </button>
+        </div>
+
+        <div className="p-4 border-t border-slate-100 dark:border-slate-800 flex items-center justify-between">
+          <button
+            onClick={() => setGroups(toDraft(DEFAULT_COLUMN_SYNONYMS))}
+            className="flex items-center gap-1 text-xs text-slate-500 hover:text-slate-700 dark:hover:text-slate-300"
+          >
+            <RotateCcw size={12} /> Reset to defaults
+          </button>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-2 text-sm text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg">Cancel</button>
+            <button onClick={handleSave} className="px-4 py-2 text-sm bg-blue-600 text-white font-bold rounded-lg hover:bg-blue-700">Save</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnSynonymsEditor;
@@ -0,0 +1,92 @@
+import React, { useMemo } from 'react';
+import { ComputedVariable } from '../types';
+import { EXPRESSION_FUNCTION_NAMES, evaluateComputedVariables, validateExpression } from '../utils/expressionEvaluator';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface ComputedVariablesEditorProps {
+  computed: ComputedVariable[];
+  sampleValues: Record<string, string>; // Used for the live preview (template default values)
+  onChange: (computed: ComputedVariable[]) => void;
+}
+
+const ComputedVariablesEditor: React.FC<ComputedVariablesEditorProps> = ({ computed, sampleValues, onChange }) => {
+  const preview = useMemo(() => evaluateComputedVariables(computed, sampleValues), [computed, sampleValues]);
+
+  const updateAt = (index: number, patch: Partial<ComputedVariable>) => {
+    onChange(computed.map((c, i) => (i === index ? { ...c, ...patch } : c)));
+  };
+
+  const inputClass = "w-full px-2 py-1 rounded border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-xs text-slate-900 dark:text-white placeholder:text-slate-400 focus:ring-1 focus:ring-blue-500 outline-none";
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-semibold text-slate-700 dark:text-slate-300">
+          Computed Variables <span className="text-xs font-normal text-slate-400">({computed.length})</span>
+        </label>
+        <button
+          type="button"
+          onClick={() => onChange([...computed, { name: '', expression: '' }])}
+          className="flex items-center gap-1 text-xs text-indigo-600 dark:text-indigo-400 hover:text-indigo-800 dark:hover:text-indigo-300 font-medium"
+        >
+          <Plus size={12} /> Add
+        </button>
+      </div>
+
+      {computed.length === 0 ? (
+        <p className="text-xs text-slate-400">
+          Derive values from other variables, e.g. <code>SUM(Ingredients.Weight)</code> or <code>ADD_MONTHS(ManufactureDate, 36)</code>.
+        </p>
+      ) : (
+        <div className="border border-slate-200 dark:border-slate-700 rounded-lg divide-y divide-slate-100 dark:divide-slate-800">
+          {computed.map((c, index) => {
+            const syntaxError = c.expression.trim() ? validateExpression(c.expression) : null;
+            const previewError = c.name ? preview.errors[c.name] : undefined;
+            const value = c.name ? preview.values[c.name] : undefined;
+            return (
+              <div key={index} className="p-2 bg-white dark:bg-slate-900 space-y-1">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={c.name}
+                    onChange={(e) => updateAt(index, { name: e.target.value.replace(/[{}|]/g, '').trim() })}
+                    placeholder="Name"
+                    className={`${inputClass} font-mono w-1/3`}
+                  />
+                  <span className="text-slate-400 text-xs">=</span>
+                  <input
+                    type="text"
+                    value={c.expression}
+                    onChange={(e) => updateAt(index, { expression: e.target.value })}
+                    placeholder='e.g. "MSDS-" & PAD(Sequence, 4)'
+                    className={`${inputClass} font-mono flex-1`}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => onChange(computed.filter((_, i) => i !== index))}
+                    className="text-slate-400 hover:text-red-600"
+                    aria-label="Remove computed variable"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+                {syntaxError ? (
+                  <p className="text-[10px] text-rose-500">{syntaxError}</p>
+                ) : previewError ? (
+                  <p className="text-[10px] text-slate-400">Preview unavailable: {previewError}</p>
+                ) : value !== undefined && (
+                  <p className="text-[10px] text-slate-400">Preview: <span className="text-slate-600 dark:text-slate-300">{value || '(empty)'}</span></p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+      {computed.length > 0 && (
+        <p className="text-[10px] text-slate-400">Functions: {EXPRESSION_FUNCTION_NAMES.join(', ')}</p>
+      )}
+    </div>
+  );
+};
+
+export default ComputedVariablesEditor;
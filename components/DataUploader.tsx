@@ -1,7 +1,8 @@
 import React, { useCallback, useState } from 'react';
 import { ExcelData } from '../types';
-import { parseExcelFile } from '../utils/fileProcessors';
-import { FileSpreadsheet, Upload, AlertCircle } from 'lucide-react';
+import { DATA_FILE_ACCEPT, parseDataFile } from '../utils/fileProcessors';
+import { selectSheet } from '../utils/workbook';
+import { FileSpreadsheet, Upload, AlertCircle, Layers } from 'lucide-react';
 
 interface DataUploaderProps {
   onDataLoaded: (data: ExcelData) => void;
@@ -10,15 +11,22 @@ interface DataUploaderProps {
 const DataUploader: React.FC<DataUploaderProps> = ({ onDataLoaded }) => {
   const [isDragging, setIsDragging] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Workbooks with several sheets wait here until the data sheet is picked
+  const [pendingWorkbook, setPendingWorkbook] = useState<ExcelData | null>(null);
 
   const processFile = async (file: File) => {
     setError(null);
     try {
-      const data = await parseExcelFile(file);
+      const data = await parseDataFile(file);
+      if ((data.sheets?.length || 0) > 1) {
+        setPendingWorkbook(data);
+        return;
+      }
       onDataLoaded(data);
     } catch (err) {
       console.error(err);
-      setError("Failed to parse the Excel file. Please ensure it's a valid .xlsx or .xls file.");
+      const detail = err instanceof Error && err.message.startsWith('Invalid JSON') ? ` ${err.message}` : '';
+      setError(`Failed to parse the file. Please ensure it's a valid Excel, CSV, TSV or JSON file.${detail}`);
     }
   };
 
@@ -39,7 +47,7 @@ const DataUploader: React.FC<DataUploaderProps> = ({ onDataLoaded }) => {
       <div className="text-center mb-10">
         <h1 className="text-3xl font-bold text-slate-800 mb-4">Step 1: Upload Product Data</h1>
         <p className="text-slate-500 text-lg">
-          Start by uploading your product ingredients or specification table (Excel). 
+          Start by uploading your product ingredients or specification table (Excel, CSV or JSON). 
           We'll use this data to populate your reports.
         </p>
       </div>
@@ -58,14 +66,14 @@ const DataUploader: React.FC<DataUploaderProps> = ({ onDataLoaded }) => {
         </div>
         
         <h3 className="text-xl font-bold text-slate-800 mb-2">
-          Drag & Drop Excel File
+          Drag & Drop Data File
         </h3>
         <p className="text-slate-500 mb-8">
-          Supports .xlsx and .xls files
+          Supports .xlsx, .xls, .csv, .tsv and .json files (UTF-8, GBK and UTF-16 text is detected automatically)
         </p>
 
         <label className="inline-block">
-          <input type="file" accept=".xlsx, .xls" className="hidden" onChange={handleChange} />
+          <input type="file" accept={DATA_FILE_ACCEPT} className="hidden" onChange={handleChange} />
           <span className="cursor-pointer bg-blue-600 hover:bg-blue-700 text-white px-8 py-4 rounded-xl font-bold text-lg shadow-lg shadow-blue-600/20 transition-all flex items-center gap-3">
             <Upload size={24} />
             Browse Files
@@ -80,6 +88,38 @@ const DataUploader: React.FC<DataUploaderProps> = ({ onDataLoaded }) => {
         )}
       </div>
 
+      {pendingWorkbook && (
+        <div className="mt-8 bg-white rounded-2xl border border-slate-200 p-6 text-left">
+          <div className="flex items-center gap-2 mb-1 font-bold text-slate-800">
+            <Layers size={18} className="text-blue-600" />
+            {pendingWorkbook.fileName} contains {pendingWorkbook.sheets!.length} sheets
+          </div>
+          <p className="text-sm text-slate-500 mb-4">
+            Choose the sheet with the data rows. Other sheets stay available as <code>{'{{Sheet.Column}}'}</code> and <code>{'{{#each Sheet}}'}</code>.
+          </p>
+          <div className="space-y-2">
+            {pendingWorkbook.sheets!.map(sheet => (
+              <button
+                key={sheet.name}
+                onClick={() => {
+                  onDataLoaded(selectSheet(pendingWorkbook, sheet.name));
+                  setPendingWorkbook(null);
+                }}
+                className={`w-full flex items-center justify-between px-4 py-3 rounded-xl border transition-colors hover:border-blue-400 hover:bg-blue-50 ${
+                  sheet.name === pendingWorkbook.activeSheet ? 'border-blue-300 bg-blue-50/50' : 'border-slate-200'
+                }`}
+              >
+                <span className="font-semibold text-slate-700">{sheet.name}</span>
+                <span className="text-xs text-slate-500">
+                  {sheet.rows.length} rows · {sheet.headers.length} columns
+                  {Object.keys(sheet.keyValues || {}).length > 0 && ` · ${Object.keys(sheet.keyValues || {}).length} key/value pairs`}
+                </span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="mt-12 grid grid-cols-1 md:grid-cols-3 gap-6">
         {[
           { title: 'Auto-Analysis', desc: 'We identify headers and data structure automatically.' },
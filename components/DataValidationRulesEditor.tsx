@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { DataRuleType, DataValidationRule } from '../types';
+import { DATA_RULE_TYPES, DEFAULT_DATA_VALIDATION_RULES } from '../utils/dataValidation';
+import { Plus, RotateCcw, ShieldAlert, Trash2, X } from 'lucide-react';
+
+interface DataValidationRulesEditorProps {
+  rules: DataValidationRule[];
+  headers: string[]; // Columns of the current sheet, offered as suggestions
+  onSave: (rules: DataValidationRule[]) => void;
+  onClose: () => void;
+}
+
+interface DraftRule {
+  id: string;
+  column: string;
+  type: DataRuleType;
+  min: string; // Kept as text while editing
+  max: string;
+  blocking: boolean;
+}
+
+const toDraft = (rules: DataValidationRule[]): DraftRule[] =>
+  rules.map(rule => ({
+    ...rule,
+    min: rule.min === undefined ? '' : String(rule.min),
+    max: rule.max === undefined ? '' : String(rule.max)
+  }));
+
+const parseBound = (value: string) => {
+  const n = Number(value.trim());
+  return value.trim() === '' || !Number.isFinite(n) ? undefined : n;
+};
+
+const DataValidationRulesEditor: React.FC<DataValidationRulesEditorProps> = ({ rules, headers, onSave, onClose }) => {
+  const [drafts, setDrafts] = useState<DraftRule[]>(() => toDraft(rules));
+
+  const updateAt = (index: number, patch: Partial<DraftRule>) => {
+    setDrafts(prev => prev.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)));
+  };
+
+  const handleSave = () => {
+    const cleaned = drafts
+      .filter(draft => draft.column.trim())
+      .map(draft => {
+        const rule: DataValidationRule = { id: draft.id, column: draft.column.trim(), type: draft.type, blocking: draft.blocking };
+        return draft.type === 'range' ? { ...rule, min: parseBound(draft.min), max: parseBound(draft.max) } : rule;
+      });
+    onSave(cleaned);
+  };
+
+  const inputClass = "px-2 py-1.5 rounded border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-sm text-slate-900 dark:text-white placeholder:text-slate-400 focus:ring-1 focus:ring-blue-500 outline-none";
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[60] flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-slate-900 rounded-xl shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col border border-slate-200 dark:border-slate-800">
+        <div className="p-4 border-b border-slate-100 dark:border-slate-800 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <ShieldAlert size={18} className="text-orange-500" />
+            <h3 className="font-bold text-slate-800 dark:text-white">Data Validation Rules</h3>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">
+            规则作用于表头包含该词语的列（不区分大小写）。勾选 Blocking 的规则发现问题时会阻止插入表格和导出，其余仅提示。
+          </p>
+          <datalist id="data-rule-columns">
+            {headers.map(header => <option key={header} value={header} />)}
+          </datalist>
+          {drafts.map((draft, index) => (
+            <div key={draft.id} className="flex items-center gap-2">
+              <input
+                type="text"
+                list="data-rule-columns"
+                value={draft.column}
+                onChange={(e) => updateAt(index, { column: e.target.value })}
+                placeholder="Column, e.g. CAS"
+                className={`${inputClass} w-40`}
+              />
+              <select
+                value={draft.type}
+                onChange={(e) => updateAt(index, { type: e.target.value as DataRuleType })}
+                className={`${inputClass} w-36`}
+              >
+                {DATA_RULE_TYPES.map(type => <option key={type.value} value={type.value}>{type.label}</option>)}
+              </select>
+              {draft.type === 'range' ? (
+                <>
+                  <input
+                    type="number"
+                    value={draft.min}
+                    onChange={(e) => updateAt(index, { min: e.target.value })}
+                    placeholder="Min"
+                    className={`${inputClass} w-20`}
+                  />
+                  <input
+                    type="number"
+                    value={draft.max}
+                    onChange={(e) => updateAt(index, { max: e.target.value })}
+                    placeholder="Max"
+                    className={`${inputClass} w-20`}
+                  />
+                </>
+              ) : (
+                <div className="w-[10.5rem]" />
+              )}
+              <label className="flex items-center gap-1 text-xs text-slate-600 dark:text-slate-300 flex-1">
+                <input
+                  type="checkbox"
+                  checked={draft.blocking}
+                  onChange={(e) => updateAt(index, { blocking: e.target.checked })}
+                  className="rounded border-slate-300"
+                />
+                Blocking
+              </label>
+              <button
+                onClick={() => setDrafts(prev => prev.filter((_, i) => i !== index))}
+                className="p-1.5 text-slate-400 hover:text-red-600"
+                aria-label="Remove rule"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => setDrafts(prev => [...prev, { id: crypto.randomUUID(), column: '', type: 'required', min: '', max: '', blocking: false }])}
+            className="flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 hover:text-blue-800 font-medium pt-1"
+          >
+            <Plus size={12} /> Add rule
+          </button>
+        </div>
+
+        <div className="p-4 border-t border-slate-100 dark:border-slate-800 flex items-center justify-between">
+          <button
+            onClick={() => setDrafts(toDraft(DEFAULT_DATA_VALIDATION_RULES))}
+            className="flex items-center gap-1 text-xs text-slate-500 hover:text-slate-700 dark:hover:text-slate-300"
+          >
+            <RotateCcw size={12} /> Reset to defaults
+          </button>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-2 text-sm text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg">Cancel</button>
+            <button onClick={handleSave} className="px-4 py-2 text-sm bg-blue-600 text-white font-bold rounded-lg hover:bg-blue-700">Save</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DataValidationRulesEditor;
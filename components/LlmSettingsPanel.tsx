@@ -1,8 +1,23 @@
 import React, { useEffect, useState, useRef } from 'react';
-import { CheckCircle, RefreshCw, X, XCircle } from 'lucide-react';
-import { LLMSettings } from '../types';
-import { getLLMSettings, saveLLMSettings, clearLLMSettings } from '../services/llmConfig';
-import { testOpenAICompatibleConnection } from '../services/geminiService';
+import { CheckCircle, ChevronDown, ChevronRight, Eye, RefreshCw, X, XCircle } from 'lucide-react';
+import { LLMSettings, LocalModelInfo, LocalServerKind, OpenAIAuthHeader } from '../types';
+import { getLLMSettings, saveLLMSettings, clearLLMSettings, OPENAI_COMPATIBLE_PRESETS } from '../services/llmConfig';
+import { testAnthropicConnection, testLocalConnection, testOpenAICompatibleConnection } from '../services/geminiService';
+import { DEFAULT_LOCAL_ENDPOINTS, discoverLocalModels } from '../services/localModels';
+
+// Extra headers are edited as "Name: value" lines, query params as "name=value" lines
+const formatKeyValueLines = (record: Record<string, string>, separator: string) =>
+  Object.entries(record || {}).map(([key, value]) => `${key}${separator}${value}`).join('\n');
+
+const parseKeyValueLines = (text: string, separator: string): Record<string, string> => {
+  const record: Record<string, string> = {};
+  text.split('\n').forEach(line => {
+    const index = line.indexOf(separator);
+    const key = index > 0 ? line.slice(0, index).trim() : '';
+    if (key) record[key] = line.slice(index + 1).trim();
+  });
+  return record;
+};
 
 const LlmSettingsPanel: React.FC = () => {
   const [showLlmPanel, setShowLlmPanel] = useState(false);
@@ -10,6 +25,12 @@ const LlmSettingsPanel: React.FC = () => {
   const [showApiKey, setShowApiKey] = useState(false);
   const [llmTestStatus, setLlmTestStatus] = useState<'idle' | 'testing' | 'success' | 'error'>('idle');
   const [llmTestMessage, setLlmTestMessage] = useState<string | null>(null);
+  const [localModels, setLocalModels] = useState<LocalModelInfo[]>([]);
+  const [isDiscovering, setIsDiscovering] = useState(false);
+  const [discoveryError, setDiscoveryError] = useState<string | null>(null);
+  const [showAdvanced, setShowAdvanced] = useState(() => Boolean(llmSettings.urlTemplate || llmSettings.apiVersion || llmSettings.authHeader === 'api-key'));
+  const [headersDraft, setHeadersDraft] = useState(() => formatKeyValueLines(llmSettings.extraHeaders, ': '));
+  const [queryDraft, setQueryDraft] = useState(() => formatKeyValueLines(llmSettings.extraQuery, '='));
   const settingsRef = useRef(llmSettings);
 
   // 保持 ref 与 state 同步
@@ -53,8 +74,11 @@ const LlmSettingsPanel: React.FC = () => {
     setLlmSettings(prev => ({
       ...prev,
       apiKey: '',
+      anthropicApiKey: '',
+      extraHeaders: {},
       rememberSession: false
     }));
+    setHeadersDraft('');
     resetLlmTestState();
   };
 
@@ -66,14 +90,75 @@ const LlmSettingsPanel: React.FC = () => {
     return null;
   };
 
+  const applyOpenAIPreset = (preset: keyof typeof OPENAI_COMPATIBLE_PRESETS) => {
+    updateAndSaveSettings(prev => ({ ...prev, ...OPENAI_COMPATIBLE_PRESETS[preset] }));
+    setShowAdvanced(preset === 'azure');
+    resetLlmTestState();
+  };
+
+  const validateAnthropicSettings = (settings: LLMSettings) => {
+    if (!settings.anthropicEndpoint.trim()) return '请填写 LLM 访问点。';
+    if (!settings.anthropicModel.trim()) return '请填写模型名称。';
+    if (!settings.anthropicApiKey.trim()) return '请填写 API Key。';
+    return null;
+  };
+
+  const validateLocalSettings = (settings: LLMSettings) => {
+    if (!settings.localEndpoint.trim()) return '请填写本地模型服务地址。';
+    if (!settings.localModel.trim()) return '请选择本地模型。';
+    return null;
+  };
+
+  const handleLocalServerChange = (localServer: LocalServerKind) => {
+    updateAndSaveSettings(prev => ({
+      ...prev,
+      localServer,
+      // Follow the default port unless the user entered a custom address
+      localEndpoint: Object.values(DEFAULT_LOCAL_ENDPOINTS).includes(prev.localEndpoint)
+        ? DEFAULT_LOCAL_ENDPOINTS[localServer]
+        : prev.localEndpoint,
+      localModel: '',
+      localModelVision: false
+    }));
+    setLocalModels([]);
+    setDiscoveryError(null);
+    resetLlmTestState();
+  };
+
+  const handleDiscoverLocalModels = async () => {
+    setIsDiscovering(true);
+    setDiscoveryError(null);
+    try {
+      const models = await discoverLocalModels(llmSettings.localServer, llmSettings.localEndpoint);
+      setLocalModels(models);
+      if (models.length === 0) {
+        setDiscoveryError('服务中没有可用模型。');
+      } else if (!models.some(model => model.name === llmSettings.localModel)) {
+        // Preselect a vision model when there is one so PDFs keep their table layout
+        const preferred = models.find(model => model.vision) || models[0];
+        updateAndSaveSettings(prev => ({ ...prev, localModel: preferred.name, localModelVision: preferred.vision }));
+      }
+    } catch (error: any) {
+      setLocalModels([]);
+      setDiscoveryError(error?.message || '模型发现失败。');
+    } finally {
+      setIsDiscovering(false);
+    }
+  };
+
   const handleTestLlmConnection = async () => {
-    if (llmSettings.provider !== 'openai-compatible') {
+    if (llmSettings.provider === 'gemini') {
       setLlmTestStatus('error');
-      setLlmTestMessage('当前仅支持测试 OpenAI 兼容服务。');
+      setLlmTestMessage('Gemini 使用默认配置，无需测试连接。');
       return;
     }
 
-    const errorMessage = validateOpenAISettings(llmSettings);
+    const { provider } = llmSettings;
+    const errorMessage = provider === 'local'
+      ? validateLocalSettings(llmSettings)
+      : provider === 'anthropic'
+        ? validateAnthropicSettings(llmSettings)
+        : validateOpenAISettings(llmSettings);
     if (errorMessage) {
       setLlmTestStatus('error');
       setLlmTestMessage(errorMessage);
@@ -83,7 +168,13 @@ const LlmSettingsPanel: React.FC = () => {
     setLlmTestStatus('testing');
     setLlmTestMessage(null);
     try {
-      await testOpenAICompatibleConnection(llmSettings);
+      if (provider === 'local') {
+        await testLocalConnection(llmSettings);
+      } else if (provider === 'anthropic') {
+        await testAnthropicConnection(llmSettings);
+      } else {
+        await testOpenAICompatibleConnection(llmSettings);
+      }
       setLlmTestStatus('success');
       setLlmTestMessage('连接成功，可正常调用模型。');
     } catch (error: any) {
@@ -94,6 +185,17 @@ const LlmSettingsPanel: React.FC = () => {
 
   if (!showLlmPanel) return null;
 
+  const isAnthropic = llmSettings.provider === 'anthropic';
+
+  const testStatus = llmTestStatus !== 'idle' && (
+    <div className={`text-xs flex items-center gap-2 ${llmTestStatus === 'success' ? 'text-emerald-600' : llmTestStatus === 'error' ? 'text-rose-600' : 'text-slate-500'}`}>
+      {llmTestStatus === 'success' && <CheckCircle size={14} />}
+      {llmTestStatus === 'error' && <XCircle size={14} />}
+      {llmTestStatus === 'testing' && <RefreshCw size={14} className="animate-spin" />}
+      <span>{llmTestMessage || (llmTestStatus === 'testing' ? '正在测试连接...' : '')}</span>
+    </div>
+  );
+
   return (
     <div className="fixed right-6 bottom-6 z-50 w-full max-w-sm bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-2xl shadow-2xl overflow-hidden">
       <div className="px-4 py-3 border-b border-slate-100 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 flex items-center justify-between">
@@ -123,41 +225,65 @@ const LlmSettingsPanel: React.FC = () => {
           >
             <option value="gemini">Google Gemini (默认)</option>
             <option value="openai-compatible">OpenAI 兼容接口</option>
+            <option value="anthropic">Anthropic Messages API</option>
+            <option value="local">本地模型 (Ollama / llama.cpp)</option>
           </select>
         </div>
 
-        {llmSettings.provider === 'openai-compatible' ? (
+        {llmSettings.provider === 'openai-compatible' || llmSettings.provider === 'anthropic' ? (
           <div className="space-y-3">
+            {!isAnthropic && (
+              <div className="flex items-center gap-2">
+                <span className="text-xs font-semibold text-slate-600 dark:text-slate-300">预设</span>
+                <button
+                  type="button"
+                  onClick={() => applyOpenAIPreset('openai')}
+                  className="px-2 py-1 rounded-md border border-slate-200 dark:border-slate-700 text-xs text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800"
+                >
+                  OpenAI
+                </button>
+                <button
+                  type="button"
+                  onClick={() => applyOpenAIPreset('azure')}
+                  className="px-2 py-1 rounded-md border border-slate-200 dark:border-slate-700 text-xs text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800"
+                >
+                  Azure OpenAI
+                </button>
+              </div>
+            )}
+
             <div className="space-y-2">
               <label className="text-xs font-semibold text-slate-600 dark:text-slate-300">LLM 访问点</label>
               <input
                 type="text"
-                value={llmSettings.endpoint}
+                value={isAnthropic ? llmSettings.anthropicEndpoint : llmSettings.endpoint}
                 onChange={(e) => {
                   const newEndpoint = e.target.value;
-                  setLlmSettings(prev => ({ ...prev, endpoint: newEndpoint }));
+                  setLlmSettings(prev => (isAnthropic ? { ...prev, anthropicEndpoint: newEndpoint } : { ...prev, endpoint: newEndpoint }));
                 }}
                 onBlur={() => {
                   saveLLMSettings(settingsRef.current);
                 }}
-                placeholder="https://api.openai.com"
+                placeholder={isAnthropic ? 'https://api.anthropic.com' : llmSettings.authHeader === 'api-key' ? 'https://<resource>.openai.azure.com' : 'https://api.openai.com'}
                 className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-sm text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 outline-none"
               />
             </div>
 
             <div className="space-y-2">
-              <label className="text-xs font-semibold text-slate-600 dark:text-slate-300">模型名称（多模态）</label>
+              <label className="text-xs font-semibold text-slate-600 dark:text-slate-300">
+                {isAnthropic ? '模型名称' : llmSettings.urlTemplate.includes('{model}') ? '模型 / 部署名称（多模态）' : '模型名称（多模态）'}
+              </label>
               <input
                 type="text"
-                value={llmSettings.model}
+                value={isAnthropic ? llmSettings.anthropicModel : llmSettings.model}
                 onChange={(e) => {
                   const newModel = e.target.value;
-                  setLlmSettings(prev => ({ ...prev, model: newModel }));
+                  setLlmSettings(prev => (isAnthropic ? { ...prev, anthropicModel: newModel } : { ...prev, model: newModel }));
                 }}
                 onBlur={() => {
                   saveLLMSettings(settingsRef.current);
                 }}
-                placeholder="gpt-4o-mini"
+                placeholder={isAnthropic ? 'claude-sonnet-4-5' : 'gpt-4o-mini'}
                 className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-sm text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 outline-none"
               />
             </div>
@@ -167,15 +293,15 @@ const LlmSettingsPanel: React.FC = () => {
               <div className="flex gap-2">
                 <input
                   type={showApiKey ? 'text' : 'password'}
-                  value={llmSettings.apiKey}
+                  value={isAnthropic ? llmSettings.anthropicApiKey : llmSettings.apiKey}
                   onChange={(e) => {
                     const newApiKey = e.target.value;
-                    setLlmSettings(prev => ({ ...prev, apiKey: newApiKey }));
+                    setLlmSettings(prev => (isAnthropic ? { ...prev, anthropicApiKey: newApiKey } : { ...prev, apiKey: newApiKey }));
                   }}
                   onBlur={() => {
                     saveLLMSettings(settingsRef.current);
                   }}
-                  placeholder="sk-..."
+                  placeholder={isAnthropic ? 'sk-ant-...' : 'sk-...'}
                   className="flex-1 px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-sm text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 outline-none"
                 />
                 <button
@@ -188,25 +314,99 @@ const LlmSettingsPanel: React.FC = () => {
               </div>
             </div>
 
+            {!isAnthropic && (
+              <div className="space-y-2">
+                <button
+                  type="button"
+                  onClick={() => setShowAdvanced(prev => !prev)}
+                  className="flex items-center gap-1 text-xs font-semibold text-slate-600 dark:text-slate-300"
+                >
+                  {showAdvanced ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                  高级：URL 模板与自定义请求
+                </button>
+                {showAdvanced && (
+                  <div className="space-y-2">
+                    <input
+                      type="text"
+                      value={llmSettings.urlTemplate}
+                      onChange={(e) => {
+                        const urlTemplate = e.target.value;
+                        setLlmSettings(prev => ({ ...prev, urlTemplate }));
+                      }}
+                      onBlur={() => {
+                        saveLLMSettings(settingsRef.current);
+                      }}
+                      placeholder="URL 模板，如 {endpoint}/openai/deployments/{model}/chat/completions"
+                      className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-sm text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 outline-none"
+                    />
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        value={llmSettings.apiVersion}
+                        onChange={(e) => {
+                          const apiVersion = e.target.value;
+                          setLlmSettings(prev => ({ ...prev, apiVersion }));
+                        }}
+                        onBlur={() => {
+                          saveLLMSettings(settingsRef.current);
+                        }}
+                        placeholder="api-version"
+                        className="flex-1 min-w-0 px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-sm text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 outline-none"
+                      />
+                      <select
+                        value={llmSettings.authHeader}
+                        onChange={(e) => updateAndSaveSettings(prev => ({ ...prev, authHeader: e.target.value as OpenAIAuthHeader }))}
+                        className="px-2 py-2 rounded-lg border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-xs text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 outline-none"
+                      >
+                        <option value="bearer">Authorization: Bearer</option>
+                        <option value="api-key">api-key 请求头</option>
+                      </select>
+                    </div>
+                    <textarea
+                      value={headersDraft}
+                      onChange={(e) => setHeadersDraft(e.target.value)}
+                      onBlur={() => updateAndSaveSettings(prev => ({ ...prev, extraHeaders: parseKeyValueLines(headersDraft, ':') }))}
+                      placeholder={'额外请求头，每行一个\nX-Proxy-Token: ...'}
+                      rows={2}
+                      className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 font-mono text-xs text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 outline-none"
+                    />
+                    <textarea
+                      value={queryDraft}
+                      onChange={(e) => setQueryDraft(e.target.value)}
+                      onBlur={() => updateAndSaveSettings(prev => ({ ...prev, extraQuery: parseKeyValueLines(queryDraft, '=') }))}
+                      placeholder={'额外查询参数，每行一个\nkey=value'}
+                      rows={2}
+                      className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 font-mono text-xs text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 outline-none"
+                    />
+                    <div className="text-[11px] text-slate-400 dark:text-slate-500">
+                      URL 模板中的 {'{endpoint}'} 与 {'{model}'} 会被替换；留空则使用 访问点/v1/chat/completions。
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
             <div className="space-y-2">
-              <label className="flex items-center gap-2 text-xs text-slate-600 dark:text-slate-300">
-                <input
-                  type="checkbox"
-                  checked={llmSettings.multimodalConfirmed}
-                  onChange={(e) => updateAndSaveSettings(prev => ({ ...prev, multimodalConfirmed: e.target.checked }))}
-                />
-                我确认该模型为多模态模型
-              </label>
+              {!isAnthropic && (
+                <label className="flex items-center gap-2 text-xs text-slate-600 dark:text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={llmSettings.multimodalConfirmed}
+                    onChange={(e) => updateAndSaveSettings(prev => ({ ...prev, multimodalConfirmed: e.target.checked }))}
+                  />
+                  我确认该模型为多模态模型
+                </label>
+              )}
               <label className="flex items-center gap-2 text-xs text-slate-600 dark:text-slate-300">
                 <input
                   type="checkbox"
                   checked={llmSettings.rememberSession}
                   onChange={(e) => updateAndSaveSettings(prev => ({ ...prev, rememberSession: e.target.checked }))}
                 />
-                仅在本次会话保存 API Key（刷新后失效）
+                仅在本次会话保存 API Key 与额外请求头（刷新后失效）
               </label>
               <div className="text-[11px] text-slate-400 dark:text-slate-500">
-                💡 所有设置自动保存。API Key 默认仅保存在内存中，不写入 localStorage。
+                💡 所有设置自动保存。API Key 与额外请求头默认仅保存在内存中，不写入 localStorage。
               </div>
             </div>
 
@@ -226,18 +426,101 @@ const LlmSettingsPanel: React.FC = () => {
               </button>
             </div>
 
-            {llmTestStatus !== 'idle' && (
-              <div className={`text-xs flex items-center gap-2 ${llmTestStatus === 'success' ? 'text-emerald-600' : llmTestStatus === 'error' ? 'text-rose-600' : 'text-slate-500'}`}>
-                {llmTestStatus === 'success' && <CheckCircle size={14} />}
-                {llmTestStatus === 'error' && <XCircle size={14} />}
-                {llmTestStatus === 'testing' && <RefreshCw size={14} className="animate-spin" />}
-                <span>{llmTestMessage || (llmTestStatus === 'testing' ? '正在测试连接...' : '')}</span>
+            {testStatus}
+          </div>
+        ) : llmSettings.provider === 'local' ? (
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <label className="text-xs font-semibold text-slate-600 dark:text-slate-300">服务类型</label>
+              <select
+                value={llmSettings.localServer}
+                onChange={(e) => handleLocalServerChange(e.target.value as LocalServerKind)}
+                className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-sm text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 outline-none"
+              >
+                <option value="ollama">Ollama</option>
+                <option value="llama-cpp">llama.cpp server</option>
+              </select>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-xs font-semibold text-slate-600 dark:text-slate-300">服务地址</label>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={llmSettings.localEndpoint}
+                  onChange={(e) => {
+                    const newEndpoint = e.target.value;
+                    setLlmSettings(prev => ({ ...prev, localEndpoint: newEndpoint }));
+                  }}
+                  onBlur={() => {
+                    saveLLMSettings(settingsRef.current);
+                  }}
+                  placeholder={DEFAULT_LOCAL_ENDPOINTS[llmSettings.localServer]}
+                  className="flex-1 px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-sm text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 outline-none"
+                />
+                <button
+                  type="button"
+                  onClick={handleDiscoverLocalModels}
+                  disabled={isDiscovering}
+                  className="flex items-center gap-1 px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 text-xs text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800"
+                >
+                  <RefreshCw size={12} className={isDiscovering ? 'animate-spin' : ''} />
+                  发现模型
+                </button>
+              </div>
+              {discoveryError && <div className="text-[11px] text-rose-600">{discoveryError}</div>}
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-xs font-semibold text-slate-600 dark:text-slate-300">模型</label>
+              <select
+                value={llmSettings.localModel}
+                onChange={(e) => {
+                  const model = localModels.find(m => m.name === e.target.value);
+                  updateAndSaveSettings(prev => ({ ...prev, localModel: e.target.value, localModelVision: Boolean(model?.vision) }));
+                  resetLlmTestState();
+                }}
+                disabled={localModels.length === 0 && !llmSettings.localModel}
+                className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-sm text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 outline-none disabled:opacity-50"
+              >
+                {localModels.length === 0 && (
+                  <option value={llmSettings.localModel}>{llmSettings.localModel || '请先发现模型'}</option>
+                )}
+                {localModels.map(model => (
+                  <option key={model.name} value={model.name}>
+                    {model.name}{model.vision ? '（视觉）' : ''}
+                  </option>
+                ))}
+              </select>
+              {llmSettings.localModel && (
+                <div className="text-[11px] text-slate-400 dark:text-slate-500 flex items-center gap-1">
+                  {llmSettings.localModelVision ? (
+                    <><Eye size={12} className="text-emerald-500" /> 支持图像，PDF 将按页面图像解析。</>
+                  ) : (
+                    '纯文本模型，PDF 将自动改用提取文本解析（表格精度可能较低）。'
+                  )}
+                </div>
+              )}
+              <div className="text-[11px] text-slate-400 dark:text-slate-500">
+                💡 请求由浏览器直接发送到本地服务，文档不会经过云端。
               </div>
-            )}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <button
+                onClick={handleTestLlmConnection}
+                className="flex items-center gap-2 px-3 py-2 rounded-lg text-xs font-semibold bg-slate-900 text-white hover:bg-slate-700 transition-colors"
+                disabled={llmTestStatus === 'testing'}
+              >
+                {llmTestStatus === 'testing' ? '测试中...' : '测试连接'}
+              </button>
+            </div>
+
+            {testStatus}
           </div>
         ) : (
           <div className="text-xs text-slate-500 dark:text-slate-400 bg-slate-50 dark:bg-slate-800/60 border border-slate-200 dark:border-slate-700 rounded-lg p-3">
-            当前使用 Gemini 默认配置。如需切换，请选择 OpenAI 兼容接口并填写配置。
+            当前使用 Gemini 默认配置。如需切换，请选择其他提供商并填写配置。
           </div>
         )}
       </div>
@@ -1,27 +1,44 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import { Template, ExcelData } from '../types';
-import { parseExcelFile } from '../utils/fileProcessors';
-import { ArrowLeft, Table, ChevronRight, ChevronLeft, FileCheck, AlertCircle, Download, Search, X, Check } from 'lucide-react';
+import { DATA_FILE_ACCEPT, parseDataFile } from '../utils/fileProcessors';
+import { generateBatchReports, getMissingMappedVariables, getRowValues, getTemplateUserVariables, renderRowPreviewHtml, withComputedValues, BatchOutputFormat, DEFAULT_FILE_NAME_PATTERN, ROW_NUMBER_TOKEN } from '../utils/batchGenerator';
+import { markdownStyles } from '../utils/reportRenderer';
+import { downloadBlob } from '../utils/download';
+import { ArrowLeft, Table, ChevronRight, ChevronLeft, FileCheck, AlertCircle, AlertTriangle, Download, Search, X, Check, RefreshCw, Upload } from 'lucide-react';
 
 interface ReportGeneratorProps {
   template: Template;
+  data?: ExcelData; // Dataset uploaded in step 1; another file can still be loaded here
   onBack: () => void;
 }
 
-const ReportGenerator: React.FC<ReportGeneratorProps> = ({ template, onBack }) => {
-  const [excelData, setExcelData] = useState<ExcelData | null>(null);
+type ExportScope = 'current' | 'all';
+
+const ReportGenerator: React.FC<ReportGeneratorProps> = ({ template, data, onBack }) => {
+  const [excelData, setExcelData] = useState<ExcelData | null>(data ?? null);
   const [columnMapping, setColumnMapping] = useState<Record<string, string>>({});
   const [previewRowIndex, setPreviewRowIndex] = useState(0);
   const [editingVariable, setEditingVariable] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
 
+  // Batch generation
+  const [showGenerateModal, setShowGenerateModal] = useState(false);
+  const [fileNamePattern, setFileNamePattern] = useState(DEFAULT_FILE_NAME_PATTERN);
+  const [outputFormats, setOutputFormats] = useState<BatchOutputFormat[]>(['pdf']);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [generateProgress, setGenerateProgress] = useState({ completed: 0, total: 0 });
+  const [generateError, setGenerateError] = useState<string | null>(null);
+  const [exportScope, setExportScope] = useState<ExportScope>('all');
+
+  const userVariables = useMemo(() => getTemplateUserVariables(template), [template]);
+
   // Auto-map columns when data is loaded
   useEffect(() => {
-    if (excelData && template.variables.length > 0) {
+    if (excelData && userVariables.length > 0) {
       const initialMapping: Record<string, string> = {};
       const headersLower = excelData.headers.map(h => h.toLowerCase());
       
-      template.variables.forEach(v => {
+      userVariables.forEach(v => {
         // 1. Try exact match (case-insensitive)
         const vLower = v.toLowerCase();
         let matchIndex = headersLower.indexOf(vLower);
@@ -47,18 +64,19 @@ const ReportGenerator: React.FC<ReportGeneratorProps> = ({ template, onBack }) =
       });
       setColumnMapping(initialMapping);
     }
-  }, [excelData, template.variables]);
+  }, [excelData, userVariables]);
 
   const handleExcelUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
     try {
-      const data = await parseExcelFile(file);
-      setExcelData(data);
+      const parsed = await parseDataFile(file);
+      setExcelData(parsed);
+      setPreviewRowIndex(0);
     } catch (err) {
       console.error(err);
-      alert("Failed to parse Excel file.");
+      alert("Failed to parse data file.");
     }
   };
 
@@ -67,16 +85,72 @@ const ReportGenerator: React.FC<ReportGeneratorProps> = ({ template, onBack }) =
     setEditingVariable(null);
   };
 
-  const segments = useMemo(() => {
-    // Split by {{variable}} but keep the delimiter
-    return template.content.split(/(\{\{[^}]+\}\})/g);
-  }, [template.content]);
+  const currentRow = excelData?.rows[previewRowIndex];
+
+  // The report for the current row, rendered as it will be exported
+  const previewHtml = useMemo(() => {
+    if (!excelData || !currentRow) return '';
+    const values = withComputedValues(template, getRowValues(currentRow, userVariables, columnMapping, excelData), currentRow, excelData);
+    return renderRowPreviewHtml(template, values, currentRow, excelData);
+  }, [template, excelData, currentRow, userVariables, columnMapping]);
+
+  // Rows where a mapped column is empty
+  const flaggedRows = useMemo(() => {
+    if (!excelData) return [];
+    return excelData.rows
+      .map((row, index) => ({ index, missing: getMissingMappedVariables(row, userVariables, columnMapping) }))
+      .filter(entry => entry.missing.length > 0);
+  }, [excelData, userVariables, columnMapping]);
+
+  const currentMissing = flaggedRows.find(entry => entry.index === previewRowIndex)?.missing || [];
+  const nextFlaggedRow = flaggedRows.find(entry => entry.index > previewRowIndex) || flaggedRows[0];
+
+  const handlePreviewClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const variable = (e.target as HTMLElement).closest<HTMLElement>('[data-variable]')?.dataset.variable;
+    if (!variable || !userVariables.includes(variable)) return;
+    setEditingVariable(variable);
+    setSearchTerm('');
+  };
+
+  const openGenerateModal = (scope: ExportScope) => {
+    setExportScope(scope);
+    setGenerateError(null);
+    setShowGenerateModal(true);
+  };
 
-  const allMapped = template.variables.every(v => !!columnMapping[v]);
+  const allMapped = userVariables.every(v => !!columnMapping[v]);
   const mappedCount = Object.values(columnMapping).filter(Boolean).length;
 
-  const handleDownload = () => {
-    alert(`Generating ${excelData?.rows.length} reports... (Mock functionality)`);
+  const toggleOutputFormat = (format: BatchOutputFormat) => {
+    setOutputFormats(prev => prev.includes(format) ? prev.filter(f => f !== format) : [...prev, format]);
+  };
+
+  const handleDownload = async () => {
+    if (!excelData) return;
+
+    setIsGenerating(true);
+    setGenerateError(null);
+    const rowIndices = exportScope === 'current' ? [previewRowIndex] : undefined;
+    setGenerateProgress({ completed: 0, total: rowIndices ? 1 : excelData.rows.length });
+    try {
+      const zip = await generateBatchReports({
+        template,
+        data: excelData,
+        columnMapping,
+        fileNamePattern,
+        formats: outputFormats,
+        rowIndices,
+        onProgress: (completed, total) => setGenerateProgress({ completed, total })
+      });
+      const suffix = exportScope === 'current' ? `Row_${previewRowIndex + 1}` : 'Reports';
+      downloadBlob(zip, `${template.name.replace(/\s+/g, '_')}_${suffix}.zip`);
+      setShowGenerateModal(false);
+    } catch (err: any) {
+      console.error('Batch generation failed', err);
+      setGenerateError(err?.message || 'Failed to generate reports.');
+    } finally {
+      setIsGenerating(false);
+    }
   };
 
   return (
@@ -90,16 +164,34 @@ const ReportGenerator: React.FC<ReportGeneratorProps> = ({ template, onBack }) =
           <div>
             <h2 className="text-lg font-bold text-slate-800 dark:text-white flex items-center gap-2">
               <FileCheck size={18} className="text-blue-600 dark:text-blue-400" />
-              Report Preview & Mapping
+              Mail Merge · {template.name}
             </h2>
             <p className="text-xs text-slate-500 dark:text-slate-400">
-               {excelData ? `${mappedCount}/${template.variables.length} variables mapped` : 'Upload data to begin'}
+               {excelData
+                 ? `${mappedCount}/${userVariables.length} variables mapped · ${flaggedRows.length} of ${excelData.rows.length} rows with missing values`
+                 : 'Upload data to begin'}
             </p>
           </div>
         </div>
 
         {excelData && (
           <div className="flex items-center gap-4">
+            <label className="cursor-pointer text-slate-500 hover:text-blue-600 dark:text-slate-400 dark:hover:text-blue-400 transition-colors" title="Load another data file">
+              <input type="file" accept={DATA_FILE_ACCEPT} className="hidden" onChange={handleExcelUpload} />
+              <Upload size={18} />
+            </label>
+
+            {flaggedRows.length > 0 && nextFlaggedRow && (
+              <button
+                onClick={() => setPreviewRowIndex(nextFlaggedRow.index)}
+                className="flex items-center gap-1 text-xs font-medium text-amber-700 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 px-2 py-1.5 rounded-lg hover:bg-amber-100 dark:hover:bg-amber-900/40 transition-colors"
+                title="Jump to the next row with missing mapped values"
+              >
+                <AlertTriangle size={14} />
+                Next flagged row
+              </button>
+            )}
+
             {/* Pagination */}
             <div className="flex items-center gap-1 bg-slate-100 dark:bg-slate-800 p-1 rounded-lg border border-slate-200 dark:border-slate-700">
               <button 
@@ -109,7 +201,7 @@ const ReportGenerator: React.FC<ReportGeneratorProps> = ({ template, onBack }) =
               >
                 <ChevronLeft size={16} />
               </button>
-              <span className="text-xs font-medium w-24 text-center text-slate-600 dark:text-slate-300">
+              <span className={`text-xs font-medium w-24 text-center ${currentMissing.length > 0 ? 'text-amber-600 dark:text-amber-400' : 'text-slate-600 dark:text-slate-300'}`}>
                 Row {previewRowIndex + 1} / {excelData.rows.length}
               </span>
               <button 
@@ -121,8 +213,15 @@ const ReportGenerator: React.FC<ReportGeneratorProps> = ({ template, onBack }) =
               </button>
             </div>
 
+            <button
+              onClick={() => openGenerateModal('current')}
+              className="flex items-center gap-2 border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:text-blue-600 dark:hover:text-blue-400 px-3 py-2 rounded-lg text-sm font-medium transition-all"
+            >
+              <Download size={16} />
+              This Row
+            </button>
             <button 
-              onClick={handleDownload}
+              onClick={() => openGenerateModal('all')}
               className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-all shadow-sm"
             >
               <Download size={16} />
@@ -142,56 +241,31 @@ const ReportGenerator: React.FC<ReportGeneratorProps> = ({ template, onBack }) =
               </div>
               <h3 className="text-xl font-bold text-slate-800 dark:text-white mb-2">Connect Data Source</h3>
               <p className="text-slate-500 dark:text-slate-400 mb-8 text-sm leading-relaxed">
-                Upload an Excel file to automatically map data to your template variables. 
+                Upload an Excel, CSV or JSON file to automatically map data to your template variables. 
                 We'll try to match columns for you.
               </p>
               
               <label className="cursor-pointer group block w-full">
-                <input type="file" accept=".xlsx, .xls" className="hidden" onChange={handleExcelUpload} />
+                <input type="file" accept={DATA_FILE_ACCEPT} className="hidden" onChange={handleExcelUpload} />
                 <div className="bg-blue-600 group-hover:bg-blue-700 text-white py-3 rounded-xl font-medium shadow-lg shadow-blue-600/20 transition-all flex items-center justify-center gap-2">
-                  <span>Select Excel File</span>
+                  <span>Select Data File</span>
                 </div>
               </label>
-              <p className="mt-4 text-xs text-slate-400">Supports .xlsx and .xls files</p>
+              <p className="mt-4 text-xs text-slate-400">Supports .xlsx, .xls, .csv, .tsv and .json files</p>
             </div>
           </div>
         ) : (
           <div className="h-full overflow-auto bg-slate-100 dark:bg-slate-950 p-8">
-             {/* Document Canvas */}
-             <div className="max-w-[210mm] mx-auto bg-white dark:bg-slate-900 shadow-xl min-h-[297mm] p-[20mm] relative transition-colors duration-200">
-               <div className="font-mono text-sm leading-relaxed whitespace-pre-wrap text-slate-800 dark:text-slate-200">
-                 {segments.map((segment, idx) => {
-                   if (segment.match(/^\{\{[^}]+\}\}$/)) {
-                     const variableName = segment.slice(2, -2);
-                     const mappedCol = columnMapping[variableName];
-                     const currentRow = excelData.rows[previewRowIndex];
-                     const value = mappedCol ? currentRow[mappedCol] : null;
-                     const isMapped = !!mappedCol;
-                     const displayValue = isMapped ? (value !== undefined ? String(value) : '') : segment;
-
-                     return (
-                       <span 
-                         key={idx}
-                         onClick={() => {
-                           setEditingVariable(variableName);
-                           setSearchTerm('');
-                         }}
-                         className={`
-                           inline-block cursor-pointer px-1 rounded mx-0.5 border transition-all duration-200 select-none
-                           ${isMapped 
-                             ? 'bg-green-50 dark:bg-green-900/30 border-green-200 dark:border-green-800 text-green-800 dark:text-green-300 hover:bg-green-100 dark:hover:bg-green-900/50 hover:border-green-300' 
-                             : 'bg-amber-50 dark:bg-amber-900/30 border-amber-200 dark:border-amber-800 text-amber-700 dark:text-amber-300 hover:bg-amber-100 dark:hover:bg-amber-900/50 hover:border-amber-300 animate-pulse'
-                           }
-                         `}
-                         title={isMapped ? `Mapped to: ${mappedCol}` : 'Click to map data'}
-                       >
-                         {displayValue || <span className="text-slate-300 dark:text-slate-600 italic">Empty</span>}
-                       </span>
-                     );
-                   }
-                   return <span key={idx}>{segment}</span>;
-                 })}
+             {currentMissing.length > 0 && (
+               <div className="max-w-[210mm] mx-auto mb-4 flex items-start gap-2 text-xs text-amber-700 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 p-3 rounded-lg">
+                 <AlertCircle size={14} className="mt-0.5 shrink-0" />
+                 Row {previewRowIndex + 1} has no value for {currentMissing.map(v => `${v} (${columnMapping[v]})`).join(', ')}.
                </div>
+             )}
+             {/* Document Canvas: the filled report for the current row; click a value to change its column */}
+             <div className="max-w-[210mm] mx-auto bg-white shadow-xl min-h-[297mm] relative">
+               <style>{markdownStyles}</style>
+               <div className="markdown-body" onClick={handlePreviewClick} dangerouslySetInnerHTML={{ __html: previewHtml }} />
              </div>
           </div>
         )}
@@ -244,8 +318,8 @@ const ReportGenerator: React.FC<ReportGeneratorProps> = ({ template, onBack }) =
                     .filter(h => h.toLowerCase().includes(searchTerm.toLowerCase()))
                     .map(header => {
                       const isSelected = columnMapping[editingVariable] === header;
-                      // Preview value for first row
-                      const previewVal = excelData.rows[0][header];
+                      // Preview value for the current row
+                      const previewVal = currentRow?.[header];
                       
                       return (
                         <button
@@ -280,6 +354,122 @@ const ReportGenerator: React.FC<ReportGeneratorProps> = ({ template, onBack }) =
             </div>
           </div>
         )}
+
+        {/* Batch Generation Modal */}
+        {showGenerateModal && excelData && (
+          <div className="absolute inset-0 z-50 flex items-center justify-center bg-slate-900/20 dark:bg-slate-900/60 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+            <div className="bg-white dark:bg-slate-800 rounded-xl shadow-2xl w-full max-w-lg border border-slate-200 dark:border-slate-700 overflow-hidden flex flex-col max-h-[80vh]">
+              <div className="p-4 border-b border-slate-100 dark:border-slate-700 flex items-center justify-between bg-slate-50 dark:bg-slate-800">
+                <div>
+                  <h3 className="font-bold text-slate-800 dark:text-white">
+                    {exportScope === 'current' ? `Export Row ${previewRowIndex + 1}` : 'Generate All Reports'}
+                  </h3>
+                  <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                    {exportScope === 'current'
+                      ? 'The report for the row shown in the preview, downloaded as a ZIP archive.'
+                      : `One report per row (${excelData.rows.length} rows), downloaded as a ZIP archive.`}
+                  </p>
+                </div>
+                <button 
+                  onClick={() => setShowGenerateModal(false)}
+                  disabled={isGenerating}
+                  className="p-1 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-md transition-colors text-slate-500 dark:text-slate-400 disabled:opacity-30"
+                >
+                  <X size={20} />
+                </button>
+              </div>
+
+              <div className="p-4 space-y-5 overflow-y-auto">
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-2">
+                    File Name Pattern
+                  </label>
+                  <input
+                    type="text"
+                    value={fileNamePattern}
+                    onChange={(e) => setFileNamePattern(e.target.value)}
+                    className="w-full px-3 py-2 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg text-sm font-mono text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all"
+                  />
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {[ROW_NUMBER_TOKEN, ...userVariables, ...(template.computedVariables || []).map(c => c.name)].map(v => (
+                      <button
+                        key={v}
+                        onClick={() => setFileNamePattern(prev => `${prev}{{${v}}}`)}
+                        className="text-[10px] font-mono px-1.5 py-0.5 rounded bg-blue-50 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 hover:bg-blue-100 dark:hover:bg-blue-900/50 transition-colors"
+                      >
+                        {`{{${v}}}`}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-2">
+                    Output Formats
+                  </label>
+                  <div className="flex flex-wrap gap-2">
+                    {([
+                      { id: 'pdf', label: 'PDF' },
+                      { id: 'docx', label: 'Word' },
+                      { id: 'html', label: 'HTML' },
+                      { id: 'markdown', label: 'Markdown' }
+                    ] as { id: BatchOutputFormat; label: string }[]).map(format => {
+                      const isSelected = outputFormats.includes(format.id);
+                      return (
+                        <button
+                          key={format.id}
+                          onClick={() => toggleOutputFormat(format.id)}
+                          className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm border transition-all ${
+                            isSelected
+                              ? 'bg-blue-50 dark:bg-blue-900/30 border-blue-300 dark:border-blue-700 text-blue-700 dark:text-blue-300 font-medium'
+                              : 'border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700'
+                          }`}
+                        >
+                          {isSelected && <Check size={14} />}
+                          {format.label}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+
+                {exportScope === 'all' && flaggedRows.length > 0 && (
+                  <div className="flex items-start gap-2 text-xs text-amber-700 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 p-3 rounded-lg">
+                    <AlertTriangle size={14} className="mt-0.5 shrink-0" />
+                    {flaggedRows.length} row(s) have empty mapped values: {flaggedRows.slice(0, 10).map(entry => entry.index + 1).join(', ')}{flaggedRows.length > 10 ? '…' : ''}
+                  </div>
+                )}
+
+                {!allMapped && (
+                  <div className="flex items-start gap-2 text-xs text-amber-700 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 p-3 rounded-lg">
+                    <AlertCircle size={14} className="mt-0.5 shrink-0" />
+                    Some variables are not mapped to a column and will be left empty.
+                  </div>
+                )}
+
+                {generateError && (
+                  <div className="text-xs text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 p-3 rounded-lg">
+                    {generateError}
+                  </div>
+                )}
+              </div>
+
+              <div className="p-4 border-t border-slate-100 dark:border-slate-700 flex items-center justify-between bg-slate-50 dark:bg-slate-800">
+                <span className="text-xs text-slate-500 dark:text-slate-400">
+                  {isGenerating ? `Rendering ${generateProgress.completed} / ${generateProgress.total}...` : ''}
+                </span>
+                <button
+                  onClick={handleDownload}
+                  disabled={isGenerating || outputFormats.length === 0 || !fileNamePattern.trim()}
+                  className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-all shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isGenerating ? <RefreshCw size={16} className="animate-spin" /> : <Download size={16} />}
+                  {isGenerating ? 'Generating...' : 'Download ZIP'}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
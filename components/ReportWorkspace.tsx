@@ -1,14 +1,33 @@
 import React, { useState, useMemo, useRef, useEffect, useCallback } from 'react';
-import { Template, ExcelData, DocumentMappingResult } from '../types';
-import { ArrowLeft, Download, Search, Edit3, Eye, Save, Table as TableIcon, ChevronUp, ChevronDown, CheckSquare, Plus, Settings, RefreshCw, Link as LinkIcon, FileText, X, Check, Wand2, FileType, AlertTriangle, XCircle, CheckCircle, GripVertical, Sparkles } from 'lucide-react';
+import { Template, TemplateVersion, ExcelData, DocumentMappingResult, ColumnMappingProfile, ColumnSynonymGroup, DataValidationRule } from '../types';
+import { ArrowLeft, Download, Search, Edit3, Eye, Save, Table as TableIcon, ChevronUp, ChevronDown, CheckSquare, Plus, Settings, RefreshCw, Link as LinkIcon, FileText, X, Check, Wand2, FileType, AlertTriangle, XCircle, CheckCircle, GripVertical, Sparkles, ShieldAlert, History, Calculator, Undo2, Redo2, ListOrdered, ScanEye } from 'lucide-react';
 import { extractTextFromPdf, extractTextFromDocx, extractTextFromPlainText, extractTextFromSpreadsheet } from '../utils/fileProcessors';
 import { suggestVariableMappingsFromDocument, formatSelectedText } from '../services/geminiService';
-import { marked } from 'marked';
+import { downloadBlob } from '../utils/download';
+import { renderMarkdownToDocx } from '../utils/docxRenderer';
+import { AUTO_VARIABLES, markdownStyles, markdownToHtml, prepareReportMarkdown, fillTemplateVariables, highlightPlaceholdersHtml, renderFilledPreviewHtml, resolvePageVariables } from '../utils/reportRenderer';
+import { renderReportPdf } from '../services/pdfService';
+import { dataRuleRepository, draftRepository, mappingProfileRepository, synonymRepository } from '../services/storageService';
+import { getVariableSchema, validateVariables } from '../utils/variableSchema';
+import { getTemplateStructure } from '../utils/templateEngine';
+import { parsePlaceholder } from '../utils/templateFilters';
+import { evaluateComputedVariables, getComputedInputVariables } from '../utils/expressionEvaluator';
+import { restoreTemplateVersion, getVersionLabel } from '../utils/templateVersions';
+import { bindWorkbookCollections, findSheet, getWorkbookSheets, resolveSheetReference, selectSheet } from '../utils/workbook';
+import { buildMarkdownTable, findMarkdownTables, MarkdownTable, replaceMarkdownTables } from '../utils/markdownTables';
+import { applyMappingProfile, createMappingProfile, DEFAULT_COLUMN_SYNONYMS, findBestMappingProfile, smartMapColumns } from '../utils/columnMapping';
+import { acceptDataCleaning, revertDataCleaning, summarizeCleaningChanges } from '../utils/dataCleaning';
+import { DataIssue, DEFAULT_DATA_VALIDATION_RULES, formatDataIssue, getCellIssueKey, validateDataRows } from '../utils/dataValidation';
+import TemplateHistory from './TemplateHistory';
+import ColumnSynonymsEditor from './ColumnSynonymsEditor';
+import { canRedo, canUndo, createHistory, EditHistory, getPresent, jumpToHistory, recordHistory, redoHistory, undoHistory } from '../utils/editHistory';
+import DataValidationRulesEditor from './DataValidationRulesEditor';
+import VariableValuePopover from './VariableValuePopover';
 
 interface ReportWorkspaceProps {
   template: Template;
   data: ExcelData;
-  onUpdateTemplate: (template: Template) => void;
+  onUpdateTemplate: (template: Template, note?: string) => void;
   onBack: () => void;
 }
 
@@ -24,17 +43,64 @@ interface TableConfig {
   headerRenames: Record<string, string>;
 }
 
+// Data bound to one table of the template, kept for the whole session
+interface TableBinding {
+  sheet?: string; // Workbook sheet the rows come from
+  rowIndices: number[];
+  targetHeaders: string[];
+  columnMapping: Record<string, string>; // TargetHeader -> ExcelHeader
+  profileId?: string; // Saved mapping profile the mapping was taken from
+}
+
+// Everything the undo history covers
+interface WorkspaceState {
+  content: string;
+  gridData: ExcelData;
+  variableValues: Record<string, string>;
+}
+
 const ReportWorkspace: React.FC<ReportWorkspaceProps> = ({ template, data, onUpdateTemplate, onBack }) => {
+  // --- Edit History: editor text, data grid and variable values share one undo stack ---
+  const [editHistory, setEditHistory] = useState<EditHistory<WorkspaceState>>(() =>
+    createHistory<WorkspaceState>({ content: template.content, gridData: data, variableValues: {} })
+  );
+  const [showEditHistory, setShowEditHistory] = useState(false);
+  const { content: localContent, gridData, variableValues } = getPresent<WorkspaceState>(editHistory);
+
+  // Returning null from update leaves the history untouched
+  const commitChange = useCallback((label: string, update: (state: WorkspaceState) => Partial<WorkspaceState> | null, group?: string) => {
+    setEditHistory((prev: EditHistory<WorkspaceState>) => {
+      const present = getPresent(prev);
+      const patch = update(present);
+      return patch ? recordHistory(prev, { ...present, ...patch }, label, group) : prev;
+    });
+  }, []);
+
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y) outside the tracked fields keep the browser's own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const key = e.key.toLowerCase();
+      if (key !== 'z' && key !== 'y') return;
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select') && !target.closest('[data-edit-history]')) return;
+      e.preventDefault();
+      setEditHistory(prev => (key === 'y' || e.shiftKey ? redoHistory(prev) : undoHistory(prev)));
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
   // --- Editor State ---
-  const [localContent, setLocalContent] = useState(template.content);
-  const [mode, setMode] = useState<'edit' | 'preview'>('edit');
+  // 'filled' previews the report with the current variable values substituted
+  const [mode, setMode] = useState<'edit' | 'preview' | 'filled'>('edit');
   const editorRef = useRef<HTMLTextAreaElement>(null);
 
   // --- Data Grid State ---
-  const [gridData, setGridData] = useState<ExcelData>(data);
   const [showDataPanel, setShowDataPanel] = useState(true);
   const [dataSearch, setDataSearch] = useState('');
   const [selectedRowIndices, setSelectedRowIndices] = useState<Set<number>>(new Set());
+  const [showCleaningDetails, setShowCleaningDetails] = useState(false);
 
   // --- Table Insertion Config ---
   const [showTableModal, setShowTableModal] = useState(false);
@@ -46,6 +112,27 @@ const ReportWorkspace: React.FC<ReportWorkspaceProps> = ({ template, data, onUpd
     selectedColumns: [],
     headerRenames: {}
   });
+  const [templateTables, setTemplateTables] = useState<MarkdownTable[]>([]);
+  const [activeTableKey, setActiveTableKey] = useState<string | null>(null);
+  const [tableBindings, setTableBindings] = useState<Record<string, TableBinding>>({});
+  const [mappingProfiles, setMappingProfiles] = useState<ColumnMappingProfile[]>([]);
+  const [columnSynonyms, setColumnSynonyms] = useState<ColumnSynonymGroup[]>(DEFAULT_COLUMN_SYNONYMS);
+  const [profileForTemplateOnly, setProfileForTemplateOnly] = useState(true);
+  const [showSynonymsEditor, setShowSynonymsEditor] = useState(false);
+
+  // --- Data Validation Rules ---
+  const [dataRules, setDataRules] = useState<DataValidationRule[]>(DEFAULT_DATA_VALIDATION_RULES);
+  const [showDataRulesEditor, setShowDataRulesEditor] = useState(false);
+
+  useEffect(() => {
+    Promise.all([mappingProfileRepository.list(), synonymRepository.get(), dataRuleRepository.get()])
+      .then(([profiles, synonyms, rules]) => {
+        setMappingProfiles(profiles);
+        if (synonyms) setColumnSynonyms(synonyms);
+        if (rules) setDataRules(rules);
+      })
+      .catch(e => console.warn('Failed to load column mapping profiles', e));
+  }, []);
   
   // --- Manual Mode: Ordered Columns State ---
   const [manualOrderedColumns, setManualOrderedColumns] = useState<string[]>([]);
@@ -180,18 +267,18 @@ const ReportWorkspace: React.FC<ReportWorkspaceProps> = ({ template, data, onUpd
     // --- Finalize / Export Config ---
   const [showExportModal, setShowExportModal] = useState(false);
   const [detectedVariables, setDetectedVariables] = useState<string[]>([]);
-  const [variableValues, setVariableValues] = useState<Record<string, string>>({});
   const [isExportingPdf, setIsExportingPdf] = useState(false);
+  const [isExportingDocx, setIsExportingDocx] = useState(false);
   const [isAutoMapping, setIsAutoMapping] = useState(false);
   const [autoMapError, setAutoMapError] = useState<string | null>(null);
   const [showAutoMapModal, setShowAutoMapModal] = useState(false);
   const [autoMapSuggestions, setAutoMapSuggestions] = useState<DocumentMappingResult | null>(null);
   const [autoMapSelections, setAutoMapSelections] = useState<Record<string, string>>({});
   const autoMapFileRef = useRef<HTMLInputElement>(null);
-  const storageKey = `smartdoc_variable_values_${template.id}`;
   
   // Format selected text state
   const [isFormattingText, setIsFormattingText] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
 
 
     const getVariableStatus = (value?: string) => {
@@ -212,6 +299,79 @@ const ReportWorkspace: React.FC<ReportWorkspaceProps> = ({ template, data, onUpd
         return counts;
     }, [detectedVariables, variableValues]);
 
+    const validationIssues = useMemo(() => {
+        return validateVariables(template, detectedVariables, variableValues);
+    }, [template, detectedVariables, variableValues]);
+
+    const loopCollections = useMemo(() => getTemplateStructure(localContent).collections, [localContent]);
+
+    const computedNames = useMemo(() => (template.computedVariables || []).map(c => c.name), [template.computedVariables]);
+
+    // {{#each}} loops iterate the rows selected in the data grid, or every row when none are selected
+    const loopRows = useMemo(() => {
+        if (selectedRowIndices.size === 0) return gridData.rows;
+        return gridData.rows.filter((_, i) => selectedRowIndices.has(i));
+    }, [gridData.rows, selectedRowIndices]);
+
+    // Recalculated whenever an input value or the selected loop rows change
+    const computedResult = useMemo(() => {
+        return evaluateComputedVariables(template.computedVariables, variableValues, bindWorkbookCollections(localContent, gridData, loopRows));
+    }, [template.computedVariables, variableValues, localContent, gridData, loopRows]);
+
+    // Cell rules cover every row of the grid; column sums only the selected rows
+    const gridIssues = useMemo(() => {
+        const selected = gridData.rows.map((_, i) => i).filter(i => selectedRowIndices.has(i));
+        const cellIssues = validateDataRows(gridData.headers, gridData.rows, dataRules).filter(issue => issue.row !== undefined);
+        const columnIssues = selected.length > 0
+            ? validateDataRows(gridData.headers, gridData.rows, dataRules, selected).filter(issue => issue.row === undefined)
+            : [];
+        return [...cellIssues, ...columnIssues];
+    }, [gridData.headers, gridData.rows, dataRules, selectedRowIndices]);
+
+    const gridIssueByCell = useMemo(() => {
+        const map = new Map<string, DataIssue>();
+        gridIssues.forEach(issue => {
+            const key = issue.row === undefined ? issue.column : getCellIssueKey(issue.row, issue.column);
+            // Blocking issues win when several rules flag the same cell
+            if (!map.has(key) || issue.blocking) map.set(key, issue);
+        });
+        return map;
+    }, [gridIssues]);
+
+    // Blocking data issues stop the action; warnings ask for confirmation
+    const confirmDataValidation = (issues: DataIssue[], action: string) => {
+        if (issues.length === 0) return true;
+        const list = (items: DataIssue[]) =>
+            items.slice(0, 10).map(issue => `- ${formatDataIssue(issue)}`).join('\n') + (items.length > 10 ? `\n…and ${items.length - 10} more` : '');
+        const blocking = issues.filter(issue => issue.blocking);
+        if (blocking.length > 0) {
+            alert(`Fix these data errors before you ${action}:\n${list(blocking)}`);
+            return false;
+        }
+        return window.confirm(`${issues.length} data warning(s):\n${list(issues)}\n\nContinue anyway?`);
+    };
+
+    const issueByVariable = useMemo(() => {
+        return new Map(validationIssues.map(issue => [issue.variable, issue]));
+    }, [validationIssues]);
+
+    // Required values block export; other rule violations ask for confirmation
+    const confirmExportValidation = () => {
+        // Selected rows reach the report; {{#each}} loops use every row when none are selected
+        const exportsAllRows = loopCollections.length > 0 && selectedRowIndices.size === 0;
+        const exportedRows = gridData.rows.map((_, i) => i).filter(i => exportsAllRows || selectedRowIndices.has(i));
+        if (!confirmDataValidation(validateDataRows(gridData.headers, gridData.rows, dataRules, exportedRows), 'export')) return false;
+        if (validationIssues.length === 0 && Object.keys(computedResult.errors).length === 0) return true;
+        const blocking = validationIssues.filter(issue => issue.blocking);
+        if (blocking.length > 0) {
+            alert(`Required variables are missing:\n${blocking.map(issue => `- ${issue.variable}`).join('\n')}`);
+            return false;
+        }
+        const computedIssues = Object.entries(computedResult.errors).map(([name, message]) => `- ${name} (computed): ${message}`);
+        const summary = [...validationIssues.map(issue => `- ${issue.variable}: ${issue.message}`), ...computedIssues].join('\n');
+        return window.confirm(`${validationIssues.length + computedIssues.length} variable(s) failed validation:\n${summary}\n\nExport anyway?`);
+    };
+
     const groupedVariables = useMemo(() => {
         const sectionMap = new Map<string, string>();
         const sectionOrder: string[] = [];
@@ -236,7 +396,7 @@ const ReportWorkspace: React.FC<ReportWorkspaceProps> = ({ template, data, onUpd
 
             let match;
             while ((match = varPattern.exec(line)) !== null) {
-                const variable = match[1];
+                const variable = parsePlaceholder(match[1]).name;
                 if (detectedSet.has(variable) && !sectionMap.has(variable)) {
                     sectionMap.set(variable, currentSection);
                 }
@@ -260,239 +420,64 @@ const ReportWorkspace: React.FC<ReportWorkspaceProps> = ({ template, data, onUpd
 
 
     // --- Markdown Rendering ---
-    const markdownStyles = `
-        .markdown-body {
-            box-sizing: border-box;
-            min-width: 200px;
-            max-width: 980px;
-            margin: 0 auto;
-            padding: 20mm;
-            font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif, "Apple Color Emoji", "Segoe UI Emoji";
-            font-size: 14px;
-            line-height: 1.7;
-            color: #000;
-            background-color: #fff;
-            word-wrap: break-word;
-        }
-        .markdown-body h1 {
-            padding-bottom: 0;
-            font-size: 2em;
-            border-bottom: none;
-            margin-top: 24px;
-            margin-bottom: 16px;
-            font-weight: 600;
-            line-height: 1.25;
-            color: #000;
-        }
-        .markdown-body h2 {
-            padding-bottom: 0;
-            font-size: 1.5em;
-            border-bottom: none;
-            margin-top: 24px;
-            margin-bottom: 16px;
-            font-weight: 600;
-            line-height: 1.25;
-            color: #000;
-        }
-        .markdown-body h3 {
-            font-size: 1.25em;
-            margin-top: 24px;
-            margin-bottom: 16px;
-            font-weight: 600;
-            line-height: 1.25;
-            color: #000;
-        }
-        .markdown-body h4 {
-            font-size: 1em;
-            margin-top: 24px;
-            margin-bottom: 16px;
-            font-weight: 600;
-            line-height: 1.25;
-            color: #000;
-        }
-        .markdown-body p {
-            margin-top: 0;
-            margin-bottom: 16px;
-            color: #000;
-        }
-        .markdown-body blockquote {
-            padding: 0 1em;
-            color: #6a737d;
-            border-left: 0.25em solid #dfe2e5;
-            margin: 0 0 16px 0;
-        }
-        .markdown-body ul, .markdown-body ol {
-            padding-left: 2em;
-            margin-top: 0;
-            margin-bottom: 16px;
-        }
-        .markdown-body table {
-            border-spacing: 0;
-            border-collapse: collapse;
-            display: table;
-            width: 100%;
-            max-width: 100%;
-            margin-top: 0;
-            margin-bottom: 16px;
-        }
-        .markdown-body table tr {
-            background-color: #fff;
-            border-top: 1px solid #000;
-        }
-        .markdown-body table tr:nth-child(2n) {
-            background-color: #fff;
-        }
-        .markdown-body table th, 
-        .markdown-body table td {
-            padding: 6px 13px;
-            border: 1px solid #dfe2e5;
-        }
-        .markdown-body table th {
-            font-weight: 600;
-            background-color: #fff;
-            color: #000;
-        }
-        .markdown-body code {
-            padding: 0.2em 0.4em;
-            margin: 0;
-            font-size: 85%;
-            background-color: #fff;
-            border-radius: 3px;
-            font-family: SFMono-Regular, Consolas, "Liberation Mono", Menlo, monospace;
-            color: #000;
-        }
-        .markdown-body pre {
-            padding: 16px;
-            overflow: auto;
-            font-size: 85%;
-            line-height: 1.45;
-            background-color: #fff;
-            border-radius: 3px;
-            margin-bottom: 16px;
-            color: #000;
-        }
-        .markdown-body pre code {
-            background-color: transparent;
-            padding: 0;
-        }
-        .markdown-body hr {
-            height: 0.25em;
-            padding: 0;
-            margin: 24px 0;
-            background-color: #000;
-            border: 0;
-        }
-        .markdown-body img {
-            max-width: 100%;
-            box-sizing: content-box;
-            background-color: #fff;
-        }
-        .markdown-body h1:nth-of-type(-n+3) {
-            text-align: center;
-            margin-top: 0;
-        }
-    `;
-
-    const normalizeReportTitle = (content: string) => {
-        const placeholderSingleLine = /^#\s*\{\{CompanyName\}\}[^\n]*Material\s+Safety\s+Data\s+Sheet\s*\(MSDS\)[^\n]*$/m;
-        const placeholderTwoLine = /^#\s*\{\{CompanyName\}\}\s*\n\s*(?:\*\*|__)?\s*Material\s+Safety\s+Data\s+Sheet\s*\(MSDS\)\s*(?:\*\*|__)?\s*$/m;
-        const genericSingleLine = /^#\s*(.+?)\s+Material\s+Safety\s+Data\s+Sheet\s*\(MSDS\)\s*$/m;
-        const genericTwoLine = /^#\s*(.+?)\s*\n\s*(?:\*\*|__)?\s*Material\s+Safety\s+Data\s+Sheet\s*\(MSDS\)\s*(?:\*\*|__)?\s*$/m;
-
-        const placeholderReplacement = (
-            `# {{CompanyName}}\n` +
-            `# Material Safety Data Sheet\n` +
-            `# (MSDS)`
-        );
-
-        if (placeholderSingleLine.test(content)) {
-            return content.replace(placeholderSingleLine, placeholderReplacement);
-        }
-
-        if (placeholderTwoLine.test(content)) {
-            return content.replace(placeholderTwoLine, placeholderReplacement);
-        }
+    const previewHtml = useMemo(() => {
+        return highlightPlaceholdersHtml(markdownToHtml(prepareReportMarkdown(localContent)));
+    }, [localContent]);
 
-        if (genericSingleLine.test(content)) {
-            return content.replace(genericSingleLine, (_, company) => (
-                `# ${company.trim()}\n` +
-                `# Material Safety Data Sheet\n` +
-                `# (MSDS)`
-            ));
-        }
+    // Variables the user fills in, as opposed to page, computed and loop variables
+    const previewUserVariables = useMemo(() => {
+        return getTemplateStructure(localContent).variables.filter(v => !AUTO_VARIABLES.includes(v) && !computedNames.includes(v));
+    }, [localContent, computedNames]);
+
+    const filledPreviewHtml = useMemo(() => {
+        if (mode !== 'filled') return '';
+        return renderFilledPreviewHtml(
+            localContent,
+            [...previewUserVariables, ...computedNames],
+            { ...variableValues, ...computedResult.values },
+            bindWorkbookCollections(localContent, gridData, loopRows)
+        );
+    }, [mode, localContent, previewUserVariables, computedNames, variableValues, computedResult, gridData, loopRows]);
 
-        if (genericTwoLine.test(content)) {
-            return content.replace(genericTwoLine, (_, company) => (
-                `# ${company.trim()}\n` +
-                `# Material Safety Data Sheet\n` +
-                `# (MSDS)`
-            ));
-        }
+    // Variable whose export form input gets focus once the form is open
+    const [focusVariable, setFocusVariable] = useState<string | null>(null);
 
-        return content;
+    useEffect(() => {
+        if (!showExportModal || !focusVariable) return;
+        const input = document.getElementById(`variable-input-${focusVariable}`);
+        if (!input) return;
+        input.scrollIntoView({ block: 'center', behavior: 'smooth' });
+        input.focus();
+        setFocusVariable(null);
+    }, [showExportModal, focusVariable, detectedVariables]);
+
+    // Placeholder clicked in the preview, edited in place through a popover
+    const [previewEditing, setPreviewEditing] = useState<{ variable: string; anchor: DOMRect } | null>(null);
+
+    const handlePreviewClick = (e: React.MouseEvent<HTMLDivElement>) => {
+        const target = (e.target as HTMLElement).closest<HTMLElement>('[data-variable]');
+        const variable = target?.dataset.variable;
+        if (!target || !variable || !previewUserVariables.includes(variable)) return;
+        setPreviewEditing({ variable, anchor: target.getBoundingClientRect() });
     };
 
-    const normalizeSectionBullets = (content: string) => {
-        const lines = content.split('\n');
-        let inSection = false;
-        let inCodeBlock = false;
-
-        const normalized = lines.map(line => {
-            const trimmed = line.trim();
-
-            if (trimmed.startsWith('```')) {
-                inCodeBlock = !inCodeBlock;
-                return line;
-            }
-
-            if (!inCodeBlock && /^#{1,3}\s+Section\s+\d+/i.test(trimmed)) {
-                inSection = true;
-                return line;
-            }
-
-            if (!inCodeBlock && /^#{1,3}\s+Section\s+\d+/i.test(trimmed) === false && /^#{1,3}\s+/.test(trimmed)) {
-                inSection = false;
-                return line;
-            }
+    const closePreviewEditing = useCallback(() => setPreviewEditing(null), []);
 
-            if (!inCodeBlock && inSection) {
-                if (trimmed.startsWith('|') && trimmed.endsWith('|')) {
-                    return line;
-                }
-                return line.replace(/^\s*[-*+]\s+/, '');
-            }
-
-            return line;
-        });
-
-        return normalized.join('\n');
+    const handlePreviewValue = (variable: string, value: string) => {
+        commitChange(`Fill ${variable}`, state => ({ variableValues: { ...state.variableValues, [variable]: value } }));
+        setPreviewEditing(null);
     };
 
-    const normalizeInlineFields = (content: string) => {
-        // Insert line breaks before inline bold labels on the same line,
-        // but do NOT touch lines inside Markdown tables.
-        const lines = content.split('\n');
-        const normalized = lines.map(line => {
-            const trimmed = line.trim();
-            if (trimmed.startsWith('|') && trimmed.endsWith('|')) {
-                return line;
-            }
-            const isListLine = /^([-*+]|\d+\.)\s+/.test(trimmed);
-            const isHeadingLine = /^#{1,6}\s+/.test(trimmed);
-            const isQuoteLine = /^>\s+/.test(trimmed);
-            if (isListLine || isHeadingLine || isQuoteLine) {
-                return line;
-            }
-            return line.replace(/([^\n])\s+(?=\*\*[^*]+?:\*\*)/g, '$1  \n');
-        });
-        return normalized.join('\n');
+    const openExportFormAt = (variable: string, typedValue: string) => {
+        // Keep what was typed in the popover without pressing Enter
+        if (typedValue !== (variableValues[variable] || '')) {
+            commitChange(`Fill ${variable}`, state => ({ variableValues: { ...state.variableValues, [variable]: typedValue } }));
+        }
+        setPreviewEditing(null);
+        setFocusVariable(variable);
+        if (!showExportModal) initExportModal();
     };
 
-    const previewHtml = useMemo(() => {
-        marked.setOptions({ breaks: true, gfm: true });
-        return marked.parse(normalizeInlineFields(normalizeSectionBullets(normalizeReportTitle(localContent))));
-    }, [localContent]);
-
   // --- Helpers ---
 
   const toggleRowSelection = (index: number) => {
@@ -514,117 +499,197 @@ const ReportWorkspace: React.FC<ReportWorkspaceProps> = ({ template, data, onUpd
   const handleCellEdit = (rowIndex: number, column: string, value: string) => {
       const newRows = [...gridData.rows];
       newRows[rowIndex] = { ...newRows[rowIndex], [column]: value };
-      setGridData({ ...gridData, rows: newRows });
+      commitChange(`Edit cell ${column} (row ${rowIndex + 1})`, () => ({ gridData: { ...gridData, rows: newRows } }), `cell:${rowIndex}:${column}`);
+  };
+
+  const workbookSheets = getWorkbookSheets(gridData);
+
+  const handleSelectSheet = (name: string) => {
+      commitChange(`Switch to sheet ${name}`, state => ({ gridData: selectSheet(state.gridData, name) }));
+      setSelectedRowIndices(new Set());
+      setDataSearch('');
+  };
+
+  // Normalization changes made on upload stay pending until accepted or reverted
+  const handleAcceptCleaning = () => {
+      commitChange('Accept data cleaning', state => ({ gridData: acceptDataCleaning(state.gridData) }));
+      setShowCleaningDetails(false);
   };
 
+  const handleRevertCleaning = () => {
+      commitChange('Revert data cleaning', state => ({ gridData: revertDataCleaning(state.gridData) }));
+      setSelectedRowIndices(new Set());
+      setShowCleaningDetails(false);
+  };
+
+  const activeColumnTypes = workbookSheets.find(sheet => sheet.name === gridData.activeSheet)?.columnTypes;
+
   // --- Core Logic: Analyze Template & Auto-Map ---
 
-  const findTableInContent = (content: string) => {
-    const lines = content.split('\n');
-    let headerLineIdx = -1;
-    let tableEndIdx = -1;
-    let headers: string[] = [];
-
-    // Simple parser to find the first Markdown table structure
-    // Looks for: | Header | Header | followed by | --- | --- |
-    for (let i = 0; i < lines.length - 1; i++) {
-      const line = lines[i].trim();
-      if (line.startsWith('|') && line.endsWith('|')) {
-         const nextLine = lines[i+1].trim();
-         // Check for separator row
-         if (nextLine.startsWith('|') && nextLine.includes('---') && nextLine.endsWith('|')) {
-             headerLineIdx = i;
-             // Extract clean headers - preserve empty column names
-             const parts = line.split('|').map(s => s.trim());
-             // Remove only the first and last empty strings (caused by leading/trailing |)
-             if (parts.length > 0 && parts[0] === '') parts.shift();
-             if (parts.length > 0 && parts[parts.length - 1] === '') parts.pop();
-             headers = parts;
-             
-             console.log('✅ Found table at line', i, 'with headers:', headers);
-             
-             // Find end of this table block
-             for (let j = i + 2; j < lines.length; j++) {
-                 if (!lines[j].trim().startsWith('|')) {
-                     tableEndIdx = j;
-                     break;
-                 }
-             }
-             if (tableEndIdx === -1) tableEndIdx = lines.length;
-             break; // Found the first table, stop here.
-         }
-      }
-    }
+  // A saved profile fitting this spreadsheet layout wins over synonym matching
+  const mapTableColumns = (targetHeaders: string[], excelHeaders: string[]) => {
+      const profile = findBestMappingProfile(mappingProfiles, { templateId: template.id, targetHeaders, excelHeaders });
+      return profile
+          ? { columnMapping: applyMappingProfile(profile, targetHeaders, excelHeaders, columnSynonyms), profileId: profile.id }
+          : { columnMapping: smartMapColumns(targetHeaders, excelHeaders, columnSynonyms), profileId: undefined };
+  };
 
-    if (headerLineIdx !== -1) {
-        return { headers, startLine: headerLineIdx, endLine: tableEndIdx };
-    }
-    
-    console.warn('⚠️ No table found in content. Total lines:', lines.length);
-    return null;
+  // Rows and headers of a workbook sheet; the active sheet reflects edits made in the grid
+  const getSheetData = (sheetName?: string) => {
+      const sheet = sheetName && sheetName !== gridData.activeSheet ? findSheet(gridData, sheetName) : undefined;
+      return sheet ? { headers: sheet.headers, rows: sheet.rows } : { headers: gridData.headers, rows: gridData.rows };
   };
 
-  const smartMapColumns = (targetHeaders: string[], excelHeaders: string[]) => {
-      const mapping: Record<string, string> = {};
-      
-      targetHeaders.forEach(target => {
-          const tLow = target.toLowerCase();
-          
-          // 1. Exact Match
-          let match = excelHeaders.find(eh => eh.toLowerCase() === tLow);
-
-          // 2. Keyword / Partial Match
-          if (!match) {
-              if (tLow.includes('no.') || tLow.includes('序号')) match = excelHeaders.find(eh => eh.includes('序号') || eh.toLowerCase().includes('no.'));
-              else if (tLow.includes('inci') || tLow.includes('name')) match = excelHeaders.find(eh => eh.toLowerCase().includes('inci') || eh.includes('名称') || eh.includes('name'));
-              else if (tLow.includes('cas')) match = excelHeaders.find(eh => eh.toLowerCase().includes('cas'));
-              else if (tLow.includes('weight') || tLow.includes('%') || tLow.includes('content') || tLow.includes('含量')) match = excelHeaders.find(eh => eh.includes('含量') || eh.includes('%') || eh.toLowerCase().includes('content'));
-              else if (tLow.includes('function') || tLow.includes('作用')) match = excelHeaders.find(eh => eh.includes('作用') || eh.includes('功能'));
-          }
+  const createTableBinding = (table: MarkdownTable): TableBinding => ({
+      sheet: gridData.activeSheet,
+      rowIndices: gridData.rows.map((_, i) => i).filter(i => selectedRowIndices.has(i)),
+      targetHeaders: table.headers,
+      ...mapTableColumns(table.headers, gridData.headers)
+  });
+
+  const loadTableBinding = (table: MarkdownTable, binding: TableBinding) => {
+      setActiveTableKey(table.key);
+      setTableConfig({
+          mode: 'template-driven',
+          targetHeaders: binding.targetHeaders,
+          columnMapping: binding.columnMapping,
+          replaceRange: { start: table.startLine, end: table.endLine },
+          selectedColumns: [],
+          headerRenames: {}
+      });
+      setManualOrderedColumns(binding.targetHeaders);
+  };
 
-          // 3. Fallback: Containment
-          if (!match) {
-             match = excelHeaders.find(eh => eh.toLowerCase().includes(tLow) || tLow.includes(eh.toLowerCase()));
+  // Bindings including the unsaved mapping of the table shown in the modal
+  const getCurrentBindings = () => {
+      if (!activeTableKey || tableConfig.mode !== 'template-driven' || !tableBindings[activeTableKey]) return tableBindings;
+      return {
+          ...tableBindings,
+          [activeTableKey]: {
+              ...tableBindings[activeTableKey],
+              targetHeaders: tableConfig.targetHeaders,
+              columnMapping: tableConfig.columnMapping
           }
+      };
+  };
 
-          if (match) mapping[target] = match;
-          else mapping[target] = ''; // Unmapped
-      });
-      return mapping;
+  const activeTableBinding = activeTableKey ? tableBindings[activeTableKey] : undefined;
+  const activeTableData = getSheetData(activeTableBinding?.sheet);
+
+  const handleSelectTable = (table: MarkdownTable) => {
+      const bindings = getCurrentBindings();
+      const binding = bindings[table.key] || createTableBinding(table);
+      setTableBindings({ ...bindings, [table.key]: binding });
+      loadTableBinding(table, binding);
   };
 
-  const initTableModal = () => {
-      if (selectedRowIndices.size === 0) {
-          alert("Please select at least one row from the Data Source panel below to insert.");
-          return;
+  const updateActiveTableBinding = (patch: Partial<TableBinding>) => {
+      if (!activeTableKey) return;
+      setTableBindings(prev => ({ ...prev, [activeTableKey]: { ...prev[activeTableKey], ...patch } }));
+  };
+
+  const handleTableSheetChange = (sheetName: string) => {
+      const { headers } = getSheetData(sheetName);
+      const { columnMapping, profileId } = mapTableColumns(tableConfig.targetHeaders, headers);
+      updateActiveTableBinding({ sheet: sheetName, rowIndices: [], profileId });
+      setTableConfig(prev => ({ ...prev, columnMapping }));
+  };
+
+  const handleApplyMappingProfile = (profileId: string) => {
+      const profile = mappingProfiles.find(p => p.id === profileId);
+      const columnMapping = profile
+          ? applyMappingProfile(profile, tableConfig.targetHeaders, activeTableData.headers, columnSynonyms)
+          : smartMapColumns(tableConfig.targetHeaders, activeTableData.headers, columnSynonyms);
+      updateActiveTableBinding({ profileId: profile?.id });
+      setTableConfig(prev => ({ ...prev, columnMapping }));
+  };
+
+  // Save the current mapping for this spreadsheet layout; an existing profile with the same name is updated
+  const handleSaveMappingProfile = async () => {
+      const applied = mappingProfiles.find(p => p.id === activeTableBinding?.profileId);
+      const defaultName = applied?.name || `${gridData.fileName}${activeTableBinding?.sheet ? ` · ${activeTableBinding.sheet}` : ''}`;
+      const name = window.prompt('映射方案名称', defaultName);
+      if (!name || !name.trim()) return;
+
+      const templateId = profileForTemplateOnly ? template.id : undefined;
+      const existing = mappingProfiles.find(p => p.name === name.trim() && p.templateId === templateId);
+      const profile = existing
+          ? { ...existing, mapping: tableConfig.columnMapping, sourceHeaders: activeTableData.headers, updatedAt: Date.now() }
+          : createMappingProfile(name, tableConfig.columnMapping, activeTableData.headers, templateId);
+
+      try {
+          await mappingProfileRepository.save(profile);
+          setMappingProfiles(prev => [profile, ...prev.filter(p => p.id !== profile.id)]);
+          updateActiveTableBinding({ profileId: profile.id });
+      } catch (e) {
+          console.error('Failed to save mapping profile', e);
+          alert('映射方案保存失败。');
       }
+  };
 
-      console.log('🔍 Initializing table modal...');
-      console.log('📄 Template content length:', localContent.length);
-      console.log('📄 First 500 chars:', localContent.substring(0, 500));
-      
-      // Always try to detect table in template first
-      const existingTable = findTableInContent(localContent);
-
-      if (existingTable && existingTable.headers.length > 0) {
-          console.log('✅ Table detected! Headers:', existingTable.headers);
-          // Found table in template - use template-driven mode
-          const mapping = smartMapColumns(existingTable.headers, gridData.headers);
-          
-          setTableConfig({
-              mode: 'template-driven',
-              targetHeaders: existingTable.headers,
-              columnMapping: mapping,
-              replaceRange: { start: existingTable.startLine, end: existingTable.endLine },
-              selectedColumns: [],
-              headerRenames: {}
+  const handleDeleteMappingProfile = async (profileId: string) => {
+      const profile = mappingProfiles.find(p => p.id === profileId);
+      if (!profile || !window.confirm(`删除映射方案「${profile.name}」？`)) return;
+      try {
+          await mappingProfileRepository.remove(profileId);
+          setMappingProfiles(prev => prev.filter(p => p.id !== profileId));
+          setTableBindings(prev => {
+              const next: Record<string, TableBinding> = {};
+              Object.keys(prev).forEach(key => {
+                  next[key] = prev[key].profileId === profileId ? { ...prev[key], profileId: undefined } : prev[key];
+              });
+              return next;
+          });
+      } catch (e) {
+          console.error('Failed to delete mapping profile', e);
+      }
+  };
+
+  const handleSaveDataRules = (rules: DataValidationRule[]) => {
+      setDataRules(rules);
+      setShowDataRulesEditor(false);
+      dataRuleRepository.save(rules).catch(e => console.error('Failed to save data validation rules', e));
+  };
+
+  const handleSaveSynonyms = (synonyms: ColumnSynonymGroup[]) => {
+      setColumnSynonyms(synonyms);
+      setShowSynonymsEditor(false);
+      synonymRepository.save(synonyms).catch(e => console.error('Failed to save column synonyms', e));
+      // Re-map the open table unless a profile decides its mapping
+      if (tableConfig.mode === 'template-driven' && !activeTableBinding?.profileId) {
+          setTableConfig(prev => ({ ...prev, columnMapping: smartMapColumns(prev.targetHeaders, activeTableData.headers, synonyms) }));
+      }
+  };
+
+  const toggleTableRow = (index: number) => {
+      if (!activeTableBinding) return;
+      const selected = new Set(activeTableBinding.rowIndices);
+      if (selected.has(index)) selected.delete(index);
+      else selected.add(index);
+      updateActiveTableBinding({ rowIndices: activeTableData.rows.map((_, i) => i).filter(i => selected.has(i)) });
+  };
+
+  const initTableModal = () => {
+      // Every table in the template can be bound to its own rows and mapping
+      const tables = findMarkdownTables(localContent);
+
+      if (tables.length > 0) {
+          const bindings = { ...tableBindings };
+          tables.forEach(table => {
+              if (!bindings[table.key]) bindings[table.key] = createTableBinding(table);
           });
-          setManualOrderedColumns(existingTable.headers);
+          setTemplateTables(tables);
+          setTableBindings(bindings);
+          const current = tables.find(table => table.key === activeTableKey) || tables[0];
+          loadTableBinding(current, bindings[current.key]);
       } else {
-          console.error('❌ No table detected in template!');
-          // No table detected - show warning and use manual mode
-          console.warn('No table detected in template. User will need to manually configure columns.');
-          
+          if (selectedRowIndices.size === 0) {
+              alert("Please select at least one row from the Data Source panel below to insert.");
+              return;
+          }
+          // No table detected - the user configures the columns manually
+          setTemplateTables([]);
+          setActiveTableKey(null);
           setTableConfig({
               mode: 'manual',
               targetHeaders: [],
@@ -639,64 +704,62 @@ const ReportWorkspace: React.FC<ReportWorkspaceProps> = ({ template, data, onUpd
       setShowTableModal(true);
   };
 
-  const handleInsertTable = () => {
-    let markdownTable = '';
-    
-    // Sort rows by index
-    const sortedIndices = Array.from(selectedRowIndices).sort((a, b) => a - b);
-    const { replaceRange, mode, targetHeaders, columnMapping } = tableConfig;
-
-    if (mode === 'template-driven') {
-        // Construct table based on TEMPLATE headers
-        const headerRow = `| ${targetHeaders.join(' | ')} |`;
-        const separatorRow = `| ${targetHeaders.map(() => '---').join(' | ')} |`;
-        
-        const dataRows = sortedIndices.map(idx => {
-            const rowData = gridData.rows[idx];
-            return `| ${targetHeaders.map(targetH => {
-                const sourceCol = columnMapping[targetH];
-                return sourceCol ? (rowData[sourceCol] || '') : '';
-            }).join(' | ')} |`;
-        });
+  // Regenerate the given template tables from their bound rows
+  const populateTemplateTables = (keys: string[]) => {
+      const bindings = getCurrentBindings();
+      const filledKeys = keys.filter(key => bindings[key] && bindings[key].rowIndices.length > 0);
 
-        markdownTable = `${headerRow}\n${separatorRow}\n${dataRows.join('\n')}`;
+      if (filledKeys.length === 0) {
+          alert("请先为表格选择数据行。");
+          return;
+      }
 
-    } else {
-        // Manual Construction - use template headers (manualOrderedColumns) and map to Excel columns
-        const templateHeaders = manualOrderedColumns;
-        const headerRow = `| ${templateHeaders.join(' | ')} |`;
-        const separatorRow = `| ${templateHeaders.map(() => '---').join(' | ')} |`;
-        const dataRows = sortedIndices.map(idx => {
-            const rowData = gridData.rows[idx];
-            return `| ${templateHeaders.map(templateH => {
-                const excelCol = columnMapping[templateH];
-                return excelCol ? (rowData[excelCol] || '') : '';
-            }).join(' | ')} |`;
-        });
-        markdownTable = `${headerRow}\n${separatorRow}\n${dataRows.join('\n')}`;
+      // Check every bound sheet before any table is replaced
+      const issues = filledKeys.flatMap(key => {
+          const { sheet, rowIndices } = bindings[key];
+          const sheetData = getSheetData(sheet);
+          return validateDataRows(sheetData.headers, sheetData.rows, dataRules, rowIndices);
+      });
+      if (!confirmDataValidation(issues, filledKeys.length > 1 ? 'fill the tables' : 'insert the table')) return;
+
+      const replacements: Record<string, string> = {};
+      filledKeys.forEach(key => {
+          const binding = bindings[key];
+          const selected = new Set(binding.rowIndices);
+          const rows = getSheetData(binding.sheet).rows.filter((_, i) => selected.has(i));
+          replacements[key] = buildMarkdownTable(binding.targetHeaders, rows, binding.columnMapping);
+      });
+
+      setTableBindings(bindings);
+      commitChange(`Fill ${Object.keys(replacements).length > 1 ? 'tables' : 'table'}`, state => ({ content: replaceMarkdownTables(state.content, replacements) }));
+      setShowTableModal(false);
+  };
+
+  const handleInsertTable = () => {
+    if (tableConfig.mode === 'template-driven' && activeTableKey) {
+        populateTemplateTables([activeTableKey]);
+        return;
     }
 
-    // Insert or Replace in Editor
-    if (replaceRange && mode === 'template-driven') {
-        const { start, end } = replaceRange;
-        const lines = localContent.split('\n');
-        // Remove old table lines and insert new table
-        lines.splice(start, end - start, markdownTable);
-        setLocalContent(lines.join('\n'));
+    const selected = gridData.rows.map((_, i) => i).filter(i => selectedRowIndices.has(i));
+    if (!confirmDataValidation(validateDataRows(gridData.headers, gridData.rows, dataRules, selected), 'insert the table')) return;
+
+    // Manual Construction - use template headers (manualOrderedColumns) and map to Excel columns
+    const rows = gridData.rows.filter((_, i) => selectedRowIndices.has(i));
+    const markdownTable = buildMarkdownTable(manualOrderedColumns, rows, tableConfig.columnMapping);
+
+    // Standard Insert at cursor
+    if (editorRef.current) {
+        const start = editorRef.current.selectionStart;
+        const end = editorRef.current.selectionEnd;
+        const text = localContent;
+        // Add newlines if needed
+        const prefix = start > 0 && text[start-1] !== '\n' ? '\n' : '';
+        const suffix = '\n';
+        const newText = text.substring(0, start) + prefix + markdownTable + suffix + text.substring(end);
+        commitChange('Insert table', () => ({ content: newText }));
     } else {
-        // Standard Insert at cursor
-        if (editorRef.current) {
-            const start = editorRef.current.selectionStart;
-            const end = editorRef.current.selectionEnd;
-            const text = localContent;
-            // Add newlines if needed
-            const prefix = start > 0 && text[start-1] !== '\n' ? '\n' : '';
-            const suffix = '\n';
-            const newText = text.substring(0, start) + prefix + markdownTable + suffix + text.substring(end);
-            setLocalContent(newText);
-        } else {
-            setLocalContent(prev => prev + '\n' + markdownTable);
-        }
+        commitChange('Insert table', state => ({ content: state.content + '\n' + markdownTable }));
     }
 
     setShowTableModal(false);
@@ -704,135 +767,158 @@ const ReportWorkspace: React.FC<ReportWorkspaceProps> = ({ template, data, onUpd
 
   // --- Finalize & Export Logic ---
 
-  const initExportModal = () => {
-      // Scan content for {{variables}}
-      const regex = /\{\{([^}]+)\}\}/g;
-      const matches = new Set<string>();
-      let match;
-      while ((match = regex.exec(localContent)) !== null) {
-          matches.add(match[1]);
+  // Variables the export form asks for: TotalPages/CurrentPage are automatic, computed variables are derived
+  // and fields inside {{#each}} loops come from the data rows
+  const getExportVariables = () => {
+      const structure = getTemplateStructure(localContent);
+      const computedInputs = getComputedInputVariables(template.computedVariables, structure.collections.map(c => c.name));
+      const allVars = Array.from(new Set([...structure.variables, ...computedInputs]));
+      return allVars.filter(v => !AUTO_VARIABLES.includes(v) && !computedNames.includes(v));
+  };
+
+  // Drafts are written back only after the stored one has been read, so an empty start never overwrites it
+  const draftLoadedRef = useRef(false);
+
+  const loadDraftValues = async (): Promise<Record<string, string>> => {
+      try {
+          const draft = await draftRepository.get(template.id);
+          return draft?.values || {};
+      } catch (e) {
+          console.warn('Failed to restore variable values', e);
+          return {};
+      } finally {
+          draftLoadedRef.current = true;
       }
-      
-      const allVars = Array.from(matches);
-      
-      // EXCLUDE AUTOMATIC VARIABLES from user input list
-      // TotalPages and CurrentPage will be handled automatically
-      const autoVars = ['TotalPages', 'CurrentPage'];
-      const userVars = allVars.filter(v => !autoVars.includes(v));
-      
-      setDetectedVariables(userVars);
-      
-            // Initialize values with empty strings, but restore from storage if available
-            const initialValues: Record<string, string> = {};
-            userVars.forEach(v => initialValues[v] = '');
-            try {
-                const saved = localStorage.getItem(storageKey);
-                if (saved) {
-                    const parsed = JSON.parse(saved) as Record<string, string>;
-                    userVars.forEach(v => {
-                        if (parsed[v]) initialValues[v] = parsed[v];
-                    });
-                }
-            } catch (e) {
-                console.warn('Failed to restore variable values', e);
-            }
+  };
 
-            // Auto-fill from Excel key-value pairs if available
-            const normalizeKey = (value: string) =>
-                value.toLowerCase().replace(/[\s_\-:：()（）]/g, '');
+  // Values already entered win; empty variables fall back to the draft, Excel key/values and template defaults
+  const prefillVariableValues = (userVars: string[], current: Record<string, string>, draftValues: Record<string, string>) => {
+      const initialValues: Record<string, string> = { ...current };
+      userVars.forEach(v => {
+          if (!initialValues[v]) initialValues[v] = draftValues[v] || '';
+      });
 
-            const excelKeyValues = data.keyValues || {};
-            const keyLookup = new Map<string, string>();
-            Object.entries(excelKeyValues).forEach(([k, v]) => {
-                const normalized = normalizeKey(k);
-                if (!keyLookup.has(normalized)) {
-                    keyLookup.set(normalized, v);
-                }
-            });
+      // Auto-fill from Excel key-value pairs if available
+      const normalizeKey = (value: string) =>
+          value.toLowerCase().replace(/[\s_\-:：()（）]/g, '');
 
-            const variableAliases: Record<string, string[]> = {
-                ProductName: ['产品名称', '产品名', '商品名称', '品名', 'Product Name', 'ProductName'],
-                CompanyName: ['公司名称', '企业名称', '生产商', '制造商', '供应商', 'Company Name', 'CompanyName'],
-                ClientName: ['客户名称', '客户', '委托单位', 'Client Name', 'ClientName'],
-                ReportDate: ['报告日期', '日期', 'Report Date', 'ReportDate']
-            };
-
-            userVars.forEach(variable => {
-                if (initialValues[variable]) return;
-                const direct = keyLookup.get(normalizeKey(variable));
-                if (direct) {
-                    initialValues[variable] = direct;
-                    return;
-                }
-                const aliases = variableAliases[variable] || [];
-                for (const alias of aliases) {
-                    const candidate = keyLookup.get(normalizeKey(alias));
-                    if (candidate) {
-                        initialValues[variable] = candidate;
-                        break;
-                    }
-                }
-            });
+      const excelKeyValues = data.keyValues || {};
+      const keyLookup = new Map<string, string>();
+      Object.entries(excelKeyValues).forEach(([k, v]) => {
+          const normalized = normalizeKey(k);
+          if (!keyLookup.has(normalized)) {
+              keyLookup.set(normalized, v);
+          }
+      });
 
-            // Auto-fill from template default values (Section 2+ only)
-            const defaultValues = template.defaultValues || {};
-            if (Object.keys(defaultValues).length > 0) {
-                const sectionMap = new Map<string, string>();
-                let currentSection = 'Uncategorized';
-                const headingPattern = /^#{2,4}\s+(.+)$/;
-                const varPattern = /\{\{([^}]+)\}\}/g;
-                const lines = localContent.split('\n');
-
-                for (const rawLine of lines) {
-                    const line = rawLine.trim();
-                    const headingMatch = line.match(headingPattern);
-                    if (headingMatch) {
-                        currentSection = headingMatch[1].trim();
-                        continue;
-                    }
-                    let match;
-                    while ((match = varPattern.exec(line)) !== null) {
-                        const variable = match[1];
-                        if (!sectionMap.has(variable)) {
-                            sectionMap.set(variable, currentSection);
-                        }
-                    }
-                }
+      const variableAliases: Record<string, string[]> = {
+          ProductName: ['产品名称', '产品名', '商品名称', '品名', 'Product Name', 'ProductName'],
+          CompanyName: ['公司名称', '企业名称', '生产商', '制造商', '供应商', 'Company Name', 'CompanyName'],
+          ClientName: ['客户名称', '客户', '委托单位', 'Client Name', 'ClientName'],
+          ReportDate: ['报告日期', '日期', 'Report Date', 'ReportDate']
+      };
 
-                const getSectionNumber = (sectionName?: string) => {
-                    if (!sectionName) return null;
-                    const match = sectionName.match(/Section\s+(\d+)/i);
-                    if (!match) return null;
-                    const num = Number.parseInt(match[1], 10);
-                    return Number.isNaN(num) ? null : num;
-                };
-
-                userVars.forEach(variable => {
-                    if (initialValues[variable]) return;
-                    const sectionName = sectionMap.get(variable);
-                    const sectionNumber = getSectionNumber(sectionName);
-                    if (sectionNumber === null || sectionNumber < 2) return;
-                    const fallbackValue = defaultValues[variable];
-                    if (fallbackValue && fallbackValue.trim() !== '') {
-                        initialValues[variable] = fallbackValue;
-                    }
-                });
-            }
+      userVars.forEach(variable => {
+          if (initialValues[variable]) return;
+          // {{Sheet.Column}} reads another sheet of the workbook
+          const sheetValue = resolveSheetReference(gridData, variable);
+          if (sheetValue) {
+              initialValues[variable] = sheetValue;
+              return;
+          }
+          const direct = keyLookup.get(normalizeKey(variable));
+          if (direct) {
+              initialValues[variable] = direct;
+              return;
+          }
+          const aliases = variableAliases[variable] || [];
+          for (const alias of aliases) {
+              const candidate = keyLookup.get(normalizeKey(alias));
+              if (candidate) {
+                  initialValues[variable] = candidate;
+                  break;
+              }
+          }
+      });
+
+      // Auto-fill from template default values (Section 2+ only)
+      const defaultValues = template.defaultValues || {};
+      if (Object.keys(defaultValues).length > 0) {
+          const sectionMap = new Map<string, string>();
+          let currentSection = 'Uncategorized';
+          const headingPattern = /^#{2,4}\s+(.+)$/;
+          const varPattern = /\{\{([^}]+)\}\}/g;
+          const lines = localContent.split('\n');
+
+          for (const rawLine of lines) {
+              const line = rawLine.trim();
+              const headingMatch = line.match(headingPattern);
+              if (headingMatch) {
+                  currentSection = headingMatch[1].trim();
+                  continue;
+              }
+              let match;
+              while ((match = varPattern.exec(line)) !== null) {
+                  const variable = parsePlaceholder(match[1]).name;
+                  if (!sectionMap.has(variable)) {
+                      sectionMap.set(variable, currentSection);
+                  }
+              }
+          }
+
+          const getSectionNumber = (sectionName?: string) => {
+              if (!sectionName) return null;
+              const match = sectionName.match(/Section\s+(\d+)/i);
+              if (!match) return null;
+              const num = Number.parseInt(match[1], 10);
+              return Number.isNaN(num) ? null : num;
+          };
+
+          userVars.forEach(variable => {
+              if (initialValues[variable]) return;
+              const sectionName = sectionMap.get(variable);
+              const sectionNumber = getSectionNumber(sectionName);
+              if (sectionNumber === null || sectionNumber < 2) return;
+              const fallbackValue = defaultValues[variable];
+              if (fallbackValue && fallbackValue.trim() !== '') {
+                  initialValues[variable] = fallbackValue;
+              }
+          });
+      }
 
-            setVariableValues(initialValues);
+      return initialValues;
+  };
+
+  const applyVariablePrefill = async (userVars: string[]) => {
+      const draftValues = await loadDraftValues();
+      commitChange('Prefill variables', state => {
+          const values = prefillVariableValues(userVars, state.variableValues, draftValues);
+          // Reopening the form usually restores the same values; only a real change deserves an undo step
+          const changed = Object.keys(values).some(key => (state.variableValues[key] ?? '') !== values[key]);
+          return changed ? { variableValues: values } : null;
+      });
+  };
+
+  const initExportModal = async () => {
+      const userVars = getExportVariables();
+      setDetectedVariables(userVars);
+      await applyVariablePrefill(userVars);
       setAutoMapError(null);
-      
+
       setShowExportModal(true);
   };
 
     useEffect(() => {
-        if (!showExportModal) return;
-        try {
-            localStorage.setItem(storageKey, JSON.stringify(variableValues));
-        } catch (e) {
+        if (!draftLoadedRef.current) return;
+        draftRepository.save(template.id, variableValues).catch(e => {
             console.warn('Failed to persist variable values', e);
-        }
-    }, [variableValues, showExportModal, storageKey]);
+        });
+    }, [variableValues, template.id]);
+
+    // Restore the draft and Excel prefill on open so the filled preview does not start with every variable missing
+    useEffect(() => {
+        applyVariablePrefill(getExportVariables());
+    }, [template.id]);
 
   const fillNoData = () => {
       const newValues = { ...variableValues };
@@ -841,18 +927,16 @@ const ReportWorkspace: React.FC<ReportWorkspaceProps> = ({ template, data, onUpd
               newValues[v] = 'No data';
           }
       });
-      setVariableValues(newValues);
+      commitChange('Fill empty variables with "No data"', () => ({ variableValues: newValues }));
   };
 
     const clearAllValues = () => {
         const cleared: Record<string, string> = {};
         detectedVariables.forEach(v => { cleared[v] = ''; });
-        setVariableValues(cleared);
-        try {
-            localStorage.removeItem(storageKey);
-        } catch (e) {
+        commitChange('Clear all variables', () => ({ variableValues: cleared }));
+        draftRepository.remove(template.id).catch(e => {
             console.warn('Failed to clear stored variable values', e);
-        }
+        });
     };
 
     const extractTextFromAnyDocument = async (file: File): Promise<string> => {
@@ -860,7 +944,7 @@ const ReportWorkspace: React.FC<ReportWorkspaceProps> = ({ template, data, onUpd
         if (ext === 'pdf') return await extractTextFromPdf(file);
         if (ext === 'docx') return await extractTextFromDocx(file);
         if (ext === 'txt') return await extractTextFromPlainText(file);
-        if (ext === 'xlsx' || ext === 'xls' || ext === 'csv') return await extractTextFromSpreadsheet(file);
+        if (ext === 'xlsx' || ext === 'xls' || ext === 'csv' || ext === 'tsv' || ext === 'json') return await extractTextFromSpreadsheet(file);
         throw new Error('Unsupported file type.');
     };
 
@@ -903,138 +987,94 @@ const ReportWorkspace: React.FC<ReportWorkspaceProps> = ({ template, data, onUpd
 
     const applyAutoMapSelections = () => {
         if (!autoMapSuggestions) return;
-        setVariableValues(prev => {
+        const { mappings } = autoMapSuggestions;
+        commitChange('Apply document mapping', ({ variableValues: prev }) => {
             const next = { ...prev };
-            autoMapSuggestions.mappings.forEach(m => {
+            mappings.forEach(m => {
                 const selected = autoMapSelections[m.variable];
                 if (selected) {
                     next[m.variable] = selected;
                 }
             });
-            return next;
+            return { variableValues: next };
         });
         setShowAutoMapModal(false);
     };
 
+  // Content with user variables filled; page variables are left for the renderer
+  const getFilledContent = () => {
+      const content = prepareReportMarkdown(localContent);
+      return fillTemplateVariables(
+          content,
+          [...detectedVariables, ...computedNames],
+          { ...variableValues, ...computedResult.values },
+          bindWorkbookCollections(content, gridData, loopRows)
+      );
+  };
+
   // Prepare content with all variables (user input + auto-calculated)
   const getProcessedContent = () => {
-    let content = normalizeInlineFields(normalizeSectionBullets(normalizeReportTitle(localContent)));
-      
-      // 1. Replace User Variables
-      detectedVariables.forEach(v => {
-          const val = variableValues[v] || '';
-          content = content.split(`{{${v}}}`).join(val);
-      });
-
-      // 2. Auto Calculate Page Variables
-      // Heuristic: Approx 3000 chars per A4 page for standard text size
-      const totalChars = content.length;
-      const estimatedPages = Math.max(1, Math.ceil(totalChars / 3000)).toString();
-
-      content = content.split('{{TotalPages}}').join(estimatedPages);
-      content = content.split('{{CurrentPage}}').join('1');
-
-      return content;
+      return resolvePageVariables(getFilledContent());
   };
 
   const handleDownloadMarkdown = () => {
+      if (!confirmExportValidation()) return;
       const finalContent = getProcessedContent();
 
-      // Create blob and download
       const blob = new Blob([finalContent], { type: 'text/markdown' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `${template.name.replace(/\s+/g, '_')}_Report.md`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      downloadBlob(blob, `${template.name.replace(/\s+/g, '_')}_Report.md`);
       
       setShowExportModal(false);
   };
 
-    const handleExportPDF = async () => {
-      setIsExportingPdf(true);
-      const finalContent = getProcessedContent();
-
-            // Parse Markdown to HTML using local marked library
-            marked.setOptions({ breaks: true, gfm: true });
-            const htmlContent = marked.parse(finalContent);
-
-            // Use a hidden iframe to avoid popup issues and blank windows
-            const iframe = document.createElement('iframe');
-            iframe.style.position = 'fixed';
-            iframe.style.right = '0';
-            iframe.style.bottom = '0';
-            iframe.style.width = '0';
-            iframe.style.height = '0';
-            iframe.style.border = '0';
-            iframe.setAttribute('aria-hidden', 'true');
-            document.body.appendChild(iframe);
-
-            const iframeDoc = iframe.contentDocument || iframe.contentWindow?.document;
-            if (!iframeDoc || !iframe.contentWindow) {
-                alert('Failed to initialize print frame.');
-                document.body.removeChild(iframe);
-                setIsExportingPdf(false);
-                return;
-            }
-
-            iframeDoc.open();
-            iframeDoc.write(`
-                <!doctype html>
-                <html>
-                    <head>
-                        <meta charset="utf-8" />
-                        <title>${template.name.replace(/\s+/g, '_')}_Report</title>
-                        <style>
-                            @page { size: A4; margin: 0; }
-                            html, body { margin: 0; padding: 0; background: #ffffff; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
-                            ${markdownStyles}
-                            @media print { body { background: #ffffff; } }
-                        </style>
-                    </head>
-                    <body>
-                        <div class="markdown-body">${htmlContent}</div>
-                    </body>
-                </html>
-            `);
-            iframeDoc.close();
-
-            const cleanup = () => {
-                if (document.body.contains(iframe)) {
-                    document.body.removeChild(iframe);
-                }
-                setIsExportingPdf(false);
-                setShowExportModal(false);
-            };
-
-            const printFrame = () => {
-                try {
-                    iframe.contentWindow?.focus();
-                    iframe.contentWindow?.print();
-                } catch (e) {
-                    console.error('Print failed', e);
-                    alert('Failed to open print dialog.');
-                    cleanup();
-                }
-            };
-
-            // Ensure resources are ready before printing
-            iframe.onload = () => printFrame();
-            // Fallback in case onload doesn't fire
-            setTimeout(() => printFrame(), 300);
+  const handleExportDocx = async () => {
+      if (!confirmExportValidation()) return;
+      setIsExportingDocx(true);
+      try {
+          const fileBase = `${template.name.replace(/\s+/g, '_')}_Report`;
+          const bytes = await renderMarkdownToDocx(getProcessedContent(), { title: fileBase });
+          const blob = new Blob([bytes], { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' });
+          downloadBlob(blob, `${fileBase}.docx`);
+          setShowExportModal(false);
+      } catch (err: any) {
+          console.error('DOCX export failed', err);
+          alert(`Failed to export Word document: ${err?.message || 'Unknown error'}`);
+      } finally {
+          setIsExportingDocx(false);
+      }
+  };
 
-            // Cleanup after printing
-            iframe.contentWindow.onafterprint = () => cleanup();
+  const handleExportPDF = async () => {
+      if (!confirmExportValidation()) return;
+      setIsExportingPdf(true);
+      try {
+          const fileBase = `${template.name.replace(/\s+/g, '_')}_Report`;
+          // Page variables stay in place so the renderer can number every page
+          const blob = await renderReportPdf(getFilledContent(), { title: fileBase });
+          downloadBlob(blob, `${fileBase}.pdf`);
+          setShowExportModal(false);
+      } catch (err: any) {
+          console.error('PDF export failed', err);
+          alert(`Failed to export PDF: ${err?.message || 'Unknown error'}`);
+      } finally {
+          setIsExportingPdf(false);
+      }
   };
 
   const handleSaveTemplate = () => {
-    onUpdateTemplate({ ...template, content: localContent });
+    const note = window.prompt('版本备注（可选）', '');
+    if (note === null) return;
+    onUpdateTemplate({ ...template, content: localContent }, note);
     alert("Template updated successfully.");
   };
 
+  const handleRestoreVersion = (version: TemplateVersion) => {
+    const restored = restoreTemplateVersion(template, version);
+    onUpdateTemplate(restored, `Rolled back to ${getVersionLabel(template, version)}`);
+    commitChange(`Roll back to ${getVersionLabel(template, version)}`, () => ({ content: restored.content }));
+    setShowHistory(false);
+  };
+
   const handleFormatSelectedText = async () => {
     if (!editorRef.current) return;
     
@@ -1055,7 +1095,7 @@ const ReportWorkspace: React.FC<ReportWorkspaceProps> = ({ template, data, onUpd
       
       // Replace selected text with formatted version
       const newContent = localContent.substring(0, start) + formattedText + localContent.substring(end);
-      setLocalContent(newContent);
+      commitChange('AI format selection', () => ({ content: newContent }));
       
       // Restore cursor position
       setTimeout(() => {
@@ -1094,6 +1134,56 @@ const ReportWorkspace: React.FC<ReportWorkspaceProps> = ({ template, data, onUpd
         </div>
 
         <div className="flex items-center gap-3">
+             <div className="relative flex items-center rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 text-slate-600 dark:text-slate-300">
+                 <button
+                    onClick={() => setEditHistory(undoHistory)}
+                    disabled={!canUndo(editHistory)}
+                    className="p-2 hover:text-blue-600 dark:hover:text-blue-400 disabled:opacity-40 disabled:hover:text-inherit"
+                    title={canUndo(editHistory) ? `Undo ${editHistory.entries[editHistory.index].label} (Ctrl+Z)` : 'Nothing to undo'}
+                 >
+                    <Undo2 size={16} />
+                 </button>
+                 <button
+                    onClick={() => setEditHistory(redoHistory)}
+                    disabled={!canRedo(editHistory)}
+                    className="p-2 hover:text-blue-600 dark:hover:text-blue-400 disabled:opacity-40 disabled:hover:text-inherit"
+                    title={canRedo(editHistory) ? `Redo ${editHistory.entries[editHistory.index + 1].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                 >
+                    <Redo2 size={16} />
+                 </button>
+                 <button
+                    onClick={() => setShowEditHistory(!showEditHistory)}
+                    className={`p-2 border-l border-slate-200 dark:border-slate-700 hover:text-blue-600 dark:hover:text-blue-400 ${showEditHistory ? 'text-blue-600 dark:text-blue-400' : ''}`}
+                    title="Edit history"
+                 >
+                    <ListOrdered size={16} />
+                 </button>
+                 {showEditHistory && (
+                     <div className="absolute right-0 top-full mt-2 w-72 max-h-80 overflow-y-auto z-40 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg shadow-xl py-1 text-xs">
+                         {editHistory.entries.map((entry, i) => ({ entry, i })).reverse().map(({ entry, i }) => (
+                             <button
+                                key={entry.id}
+                                onClick={() => setEditHistory(prev => jumpToHistory(prev, entry.id))}
+                                className={`w-full flex items-center justify-between gap-2 px-3 py-1.5 text-left hover:bg-slate-50 dark:hover:bg-slate-800 ${
+                                    i === editHistory.index
+                                        ? 'font-bold text-blue-700 dark:text-blue-300 bg-blue-50/60 dark:bg-blue-900/20'
+                                        : i > editHistory.index ? 'text-slate-400 dark:text-slate-500' : 'text-slate-700 dark:text-slate-300'
+                                }`}
+                             >
+                                <span className="truncate">{entry.label}</span>
+                                <span className="shrink-0 text-[10px] font-normal text-slate-400">{new Date(entry.updatedAt).toLocaleTimeString()}</span>
+                             </button>
+                         ))}
+                     </div>
+                 )}
+             </div>
+             <button
+                onClick={() => setShowHistory(true)}
+                className="text-slate-600 dark:text-slate-300 hover:text-blue-600 dark:hover:text-blue-400 flex items-center gap-2 px-3 py-1.5 rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 text-sm font-medium transition-all"
+                title="Version history"
+             >
+                <History size={16} /> History
+             </button>
              <button 
                 onClick={handleSaveTemplate}
                 className="text-slate-600 dark:text-slate-300 hover:text-blue-600 dark:hover:text-blue-400 flex items-center gap-2 px-3 py-1.5 rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 text-sm font-medium transition-all"
@@ -1120,6 +1210,9 @@ const ReportWorkspace: React.FC<ReportWorkspaceProps> = ({ template, data, onUpd
                     <button onClick={() => setMode('preview')} className={`px-3 py-1 text-xs font-medium rounded-md flex items-center gap-2 ${mode === 'preview' ? 'bg-white dark:bg-slate-700 shadow text-slate-800 dark:text-white' : 'text-slate-500 dark:text-slate-400'}`}>
                         <Eye size={14} /> Preview
                     </button>
+                    <button onClick={() => setMode('filled')} className={`px-3 py-1 text-xs font-medium rounded-md flex items-center gap-2 ${mode === 'filled' ? 'bg-white dark:bg-slate-700 shadow text-slate-800 dark:text-white' : 'text-slate-500 dark:text-slate-400'}`} title="Preview with the variable values filled in">
+                        <ScanEye size={14} /> Filled
+                    </button>
                  </div>
 
                  {mode === 'edit' && (
@@ -1158,15 +1251,27 @@ const ReportWorkspace: React.FC<ReportWorkspaceProps> = ({ template, data, onUpd
                      <textarea
                         ref={editorRef}
                         value={localContent}
-                        onChange={(e) => setLocalContent(e.target.value)}
+                        onChange={(e) => commitChange('Edit text', () => ({ content: e.target.value }), 'editor')}
+                        data-edit-history
                         className="w-full h-full p-8 font-mono text-sm leading-relaxed text-slate-800 dark:text-slate-200 bg-white dark:bg-slate-900 outline-none resize-none placeholder:text-slate-300 dark:placeholder:text-slate-600"
                         placeholder="Start typing your report..."
                      />
+                                 ) : mode === 'filled' ? (
+                                         <div className="p-0 w-full max-w-none bg-white">
+                                                 <style>{markdownStyles}</style>
+                                                 <div className="sticky top-0 z-10 flex items-center gap-4 px-4 py-2 text-xs text-slate-500 bg-white/90 border-b border-slate-100">
+                                                     <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-green-200"></span> Filled</span>
+                                                     <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-amber-200"></span> No data</span>
+                                                     <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-red-200"></span> Missing</span>
+                                                     <span className="ml-auto">Click a value to edit it</span>
+                                                 </div>
+                                                 <div className="markdown-body" onClick={handlePreviewClick} dangerouslySetInnerHTML={{ __html: filledPreviewHtml }} />
+                                         </div>
                                  ) : (
                                          <div className="p-0 w-full max-w-none bg-white">
                                                  <style>{markdownStyles}</style>
                                                  {previewHtml ? (
-                                                     <div className="markdown-body" dangerouslySetInnerHTML={{ __html: previewHtml }} />
+                                                     <div className="markdown-body" onClick={handlePreviewClick} dangerouslySetInnerHTML={{ __html: previewHtml }} />
                                                  ) : (
                                                      <div className="p-8 whitespace-pre-wrap font-sans text-slate-800 dark:text-slate-200 leading-relaxed">
                                                          {localContent}
@@ -1186,9 +1291,35 @@ const ReportWorkspace: React.FC<ReportWorkspaceProps> = ({ template, data, onUpd
           >
              <div className="flex items-center gap-2 font-bold text-slate-700 dark:text-slate-300 text-sm">
                  <TableIcon size={16} /> 
-                 Data Source ({gridData.rows.length} Records) <span className="text-slate-400 font-normal ml-2">Select rows to insert into the report table</span>
+                 Data Source ({gridData.rows.length} Records)
+                 {gridData.source && gridData.source.format !== 'excel' && (
+                     <span className="text-[10px] font-medium uppercase px-1.5 py-0.5 rounded bg-slate-200 dark:bg-slate-700 text-slate-500 dark:text-slate-300">
+                         {gridData.source.format}{gridData.source.encoding ? ` · ${gridData.source.encoding}` : ''}
+                     </span>
+                 )}
+                 <span className="text-slate-400 font-normal ml-2">Select rows to insert into the report table</span>
              </div>
              <div className="flex items-center gap-4" onClick={(e) => e.stopPropagation()}>
+                 <button
+                    onClick={() => setShowDataRulesEditor(true)}
+                    className={`flex items-center gap-1 text-xs font-medium ${gridIssues.some(issue => issue.blocking) ? 'text-rose-600' : gridIssues.length > 0 ? 'text-orange-600 dark:text-orange-400' : 'text-slate-400 hover:text-slate-600 dark:hover:text-slate-200'}`}
+                    title="Data validation rules"
+                 >
+                     <ShieldAlert size={14} />
+                     {gridIssues.length > 0 ? `${gridIssues.length} issue${gridIssues.length > 1 ? 's' : ''}` : 'Rules'}
+                 </button>
+                 {workbookSheets.length > 1 && (
+                     <select
+                        value={gridData.activeSheet}
+                        onChange={(e) => handleSelectSheet(e.target.value)}
+                        className="px-2 py-1 text-xs border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 rounded-md focus:ring-1 focus:ring-blue-500 outline-none"
+                        title="Worksheet"
+                     >
+                         {workbookSheets.map(sheet => (
+                             <option key={sheet.name} value={sheet.name}>{sheet.name} ({sheet.rows.length})</option>
+                         ))}
+                     </select>
+                 )}
                  {showDataPanel && (
                      <div className="relative">
                          <Search size={14} className="absolute left-2 top-1/2 -translate-y-1/2 text-slate-400"/>
@@ -1207,9 +1338,42 @@ const ReportWorkspace: React.FC<ReportWorkspaceProps> = ({ template, data, onUpd
              </div>
           </div>
 
+          {showDataPanel && gridData.cleaning && (
+              <div className="px-4 py-2 border-b border-amber-100 dark:border-amber-900/40 bg-amber-50 dark:bg-amber-900/10 text-xs text-amber-800 dark:text-amber-300">
+                  <div className="flex items-center justify-between gap-4">
+                      <div className="flex items-center gap-2">
+                          <Sparkles size={14} />
+                          <span>Data cleaned on upload: {summarizeCleaningChanges(gridData.cleaning.changes)}.</span>
+                          <button onClick={() => setShowCleaningDetails(!showCleaningDetails)} className="underline hover:text-amber-900 dark:hover:text-amber-200">
+                              {showCleaningDetails ? 'Hide details' : 'Show details'}
+                          </button>
+                      </div>
+                      <div className="flex items-center gap-2">
+                          <button onClick={handleRevertCleaning} className="flex items-center gap-1 px-2 py-1 rounded border border-amber-300 dark:border-amber-700 hover:bg-amber-100 dark:hover:bg-amber-900/30">
+                              <RefreshCw size={12} /> Revert
+                          </button>
+                          <button onClick={handleAcceptCleaning} className="flex items-center gap-1 px-2 py-1 rounded bg-amber-600 hover:bg-amber-700 text-white">
+                              <Check size={12} /> Accept
+                          </button>
+                      </div>
+                  </div>
+                  {showCleaningDetails && (
+                      <ul className="mt-2 space-y-0.5 max-h-24 overflow-auto">
+                          {gridData.cleaning.changes.map((change, i) => (
+                              <li key={i}>
+                                  {workbookSheets.length > 1 && <span className="text-amber-600">{change.sheet} · </span>}
+                                  <span className="font-semibold">{change.column}</span>
+                                  {' '}{change.kind}{change.count > 1 ? ` ×${change.count}` : ''}: <code>{change.before}</code> → <code>{change.after}</code>
+                              </li>
+                          ))}
+                      </ul>
+                  )}
+              </div>
+          )}
+
           {showDataPanel && (
               <div className="flex-1 overflow-auto bg-white dark:bg-slate-900">
-                  <table className="w-full text-sm text-left border-collapse relative">
+                  <table className="w-full text-sm text-left border-collapse relative" data-edit-history>
                       <thead className="bg-slate-50 dark:bg-slate-900 sticky top-0 z-10 shadow-sm text-slate-600 dark:text-slate-400">
                           <tr>
                               <th className="px-3 py-2 border-b border-slate-200 dark:border-slate-700 w-10 text-center bg-slate-50 dark:bg-slate-900">
@@ -1222,8 +1386,16 @@ const ReportWorkspace: React.FC<ReportWorkspaceProps> = ({ template, data, onUpd
                               </th>
                               <th className="px-3 py-2 border-b border-slate-200 dark:border-slate-700 text-xs font-semibold w-12 text-center bg-slate-50 dark:bg-slate-900">#</th>
                               {gridData.headers.map(h => (
-                                  <th key={h} className="px-3 py-2 border-b border-slate-200 dark:border-slate-700 text-xs font-semibold whitespace-nowrap bg-slate-50 dark:bg-slate-900">
+                                  <th
+                                    key={h}
+                                    title={gridIssueByCell.get(h)?.message}
+                                    className={`px-3 py-2 border-b border-slate-200 dark:border-slate-700 text-xs font-semibold whitespace-nowrap bg-slate-50 dark:bg-slate-900 ${gridIssueByCell.has(h) ? (gridIssueByCell.get(h)!.blocking ? 'text-rose-600' : 'text-orange-600 dark:text-orange-400') : ''}`}
+                                  >
+                                      {gridIssueByCell.has(h) && <AlertTriangle size={12} className="inline mr-1 -mt-0.5" />}
                                       {h}
+                                      {activeColumnTypes?.[h] && activeColumnTypes[h] !== 'text' && (
+                                          <span className="ml-1 font-normal text-[10px] text-slate-400">{activeColumnTypes[h]}</span>
+                                      )}
                                   </th>
                               ))}
                           </tr>
@@ -1244,16 +1416,20 @@ const ReportWorkspace: React.FC<ReportWorkspaceProps> = ({ template, data, onUpd
                                       <td className="px-3 py-2 text-center text-xs text-slate-400 border-r border-slate-100 dark:border-slate-800">
                                           {row._originalIndex + 1}
                                       </td>
-                                      {gridData.headers.map(h => (
+                                      {gridData.headers.map(h => {
+                                          const issue = gridIssueByCell.get(getCellIssueKey(row._originalIndex, h));
+                                          return (
                                           <td key={h} className="px-1 py-1 border-r border-slate-100 dark:border-slate-800 min-w-[100px]">
                                               <input 
                                                 type="text" 
                                                 value={row[h] || ''}
+                                                title={issue?.message}
                                                 onChange={(e) => handleCellEdit(row._originalIndex, h, e.target.value)}
-                                                className={`w-full px-2 py-1 rounded text-sm bg-transparent outline-none focus:bg-white dark:focus:bg-slate-800 focus:ring-1 focus:ring-blue-500 ${isSelected ? 'text-blue-900 dark:text-blue-300 font-medium' : 'text-slate-600 dark:text-slate-300'}`}
+                                                className={`w-full px-2 py-1 rounded text-sm bg-transparent outline-none focus:bg-white dark:focus:bg-slate-800 focus:ring-1 focus:ring-blue-500 ${isSelected ? 'text-blue-900 dark:text-blue-300 font-medium' : 'text-slate-600 dark:text-slate-300'} ${issue ? (issue.blocking ? 'ring-1 ring-rose-400 bg-rose-50 dark:bg-rose-900/20' : 'ring-1 ring-orange-300 bg-orange-50 dark:bg-orange-900/20') : ''}`}
                                               />
                                           </td>
-                                      ))}
+                                          );
+                                      })}
                                   </tr>
                               );
                           })}
@@ -1266,7 +1442,7 @@ const ReportWorkspace: React.FC<ReportWorkspaceProps> = ({ template, data, onUpd
       {/* 4. Table Mapping Modal */}
       {showTableModal && (
           <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm p-4">
-              <div className="bg-white dark:bg-slate-800 rounded-xl shadow-2xl w-full max-w-3xl border border-slate-200 dark:border-slate-700 flex flex-col max-h-[90vh]">
+              <div className={`bg-white dark:bg-slate-800 rounded-xl shadow-2xl w-full ${templateTables.length > 1 ? 'max-w-5xl' : 'max-w-3xl'} border border-slate-200 dark:border-slate-700 flex flex-col max-h-[90vh]`}>
                   <div className="px-6 py-4 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center bg-slate-50 dark:bg-slate-800 rounded-t-xl">
                       <div>
                           <h3 className="text-lg font-bold text-slate-800 dark:text-white flex items-center gap-2">
@@ -1275,7 +1451,7 @@ const ReportWorkspace: React.FC<ReportWorkspaceProps> = ({ template, data, onUpd
                           </h3>
                           <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
                               {tableConfig.mode === 'template-driven' 
-                                ? 'We detected a table in your report. Match your Excel columns to the template headers below.' 
+                                ? `We detected ${templateTables.length} table(s) in your report. Pick the rows and match your Excel columns to the template headers of each table.` 
                                 : 'Select columns to include in your new table.'}
                           </p>
                       </div>
@@ -1284,8 +1460,137 @@ const ReportWorkspace: React.FC<ReportWorkspaceProps> = ({ template, data, onUpd
                   
                   <div className="flex-1 overflow-auto p-6 bg-slate-50/50 dark:bg-slate-900/50">
                       {tableConfig.mode === 'template-driven' ? (
-                        /* Template Driven UI with Drag & Drop Reordering */
-                        <div className="space-y-2">
+                        <div className="flex gap-6">
+                        {templateTables.length > 1 && (
+                            /* Every table of the template, listed by section heading */
+                            <div className="w-56 shrink-0 space-y-2">
+                                <p className="text-xs font-bold text-slate-400 uppercase tracking-wider px-1">Tables</p>
+                                {templateTables.map(table => {
+                                    const boundRows = tableBindings[table.key]?.rowIndices.length || 0;
+                                    return (
+                                        <button
+                                            key={table.key}
+                                            onClick={() => handleSelectTable(table)}
+                                            className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                                                table.key === activeTableKey
+                                                    ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+                                                    : 'border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-700 hover:border-blue-300'
+                                            }`}
+                                        >
+                                            <div className="text-sm font-semibold text-slate-700 dark:text-slate-200 truncate" title={table.section}>{table.section}</div>
+                                            <div className="text-[11px] text-slate-400 truncate">{table.headers.join(' · ')}</div>
+                                            <div className={`text-[11px] mt-1 ${boundRows > 0 ? 'text-green-600 dark:text-green-400' : 'text-slate-400'}`}>
+                                                {boundRows > 0 ? `${boundRows} rows` : 'No rows selected'}
+                                            </div>
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        )}
+                        {/* Template Driven UI with Drag & Drop Reordering */}
+                        <div className="flex-1 min-w-0 space-y-2">
+                            {activeTableBinding && (
+                                <div className="bg-white dark:bg-slate-700 p-3 rounded-lg border border-slate-200 dark:border-slate-600 mb-4 space-y-2">
+                                    <div className="flex flex-wrap items-center gap-3 text-sm">
+                                        <span className="font-semibold text-slate-700 dark:text-slate-200">数据行</span>
+                                        {workbookSheets.length > 1 && (
+                                            <select
+                                                value={activeTableBinding.sheet || gridData.activeSheet}
+                                                onChange={(e) => handleTableSheetChange(e.target.value)}
+                                                className="px-2 py-1 text-xs border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 rounded-md outline-none"
+                                            >
+                                                {workbookSheets.map(sheet => (
+                                                    <option key={sheet.name} value={sheet.name}>{sheet.name}</option>
+                                                ))}
+                                            </select>
+                                        )}
+                                        <span className="text-xs text-slate-500 dark:text-slate-400">
+                                            {activeTableBinding.rowIndices.length} / {activeTableData.rows.length} selected
+                                        </span>
+                                        <div className="ml-auto flex gap-2 text-xs">
+                                            <button
+                                                onClick={() => updateActiveTableBinding({ rowIndices: activeTableData.rows.map((_, i) => i) })}
+                                                className="text-blue-600 dark:text-blue-400 hover:underline"
+                                            >
+                                                All
+                                            </button>
+                                            <button
+                                                onClick={() => updateActiveTableBinding({ rowIndices: [] })}
+                                                className="text-slate-500 dark:text-slate-400 hover:underline"
+                                            >
+                                                None
+                                            </button>
+                                            {(!activeTableBinding.sheet || activeTableBinding.sheet === gridData.activeSheet) && selectedRowIndices.size > 0 && (
+                                                <button
+                                                    onClick={() => updateActiveTableBinding({ rowIndices: gridData.rows.map((_, i) => i).filter(i => selectedRowIndices.has(i)) })}
+                                                    className="text-blue-600 dark:text-blue-400 hover:underline"
+                                                >
+                                                    Use grid selection ({selectedRowIndices.size})
+                                                </button>
+                                            )}
+                                        </div>
+                                    </div>
+                                    <div className="max-h-32 overflow-auto border border-slate-100 dark:border-slate-600 rounded divide-y divide-slate-100 dark:divide-slate-600">
+                                        {activeTableData.rows.map((row, i) => (
+                                            <label key={i} className="flex items-center gap-2 px-2 py-1 text-xs text-slate-600 dark:text-slate-300 cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-600/50">
+                                                <input
+                                                    type="checkbox"
+                                                    className="rounded border-slate-300"
+                                                    checked={activeTableBinding.rowIndices.includes(i)}
+                                                    onChange={() => toggleTableRow(i)}
+                                                />
+                                                <span className="w-6 text-slate-400">{i + 1}</span>
+                                                <span className="truncate">{activeTableData.headers.slice(0, 4).map(h => row[h]).filter(v => v !== '' && v !== undefined).join(' · ')}</span>
+                                            </label>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+                            <div className="flex flex-wrap items-center gap-2 mb-4 px-2 text-xs">
+                                <span className="font-semibold text-slate-600 dark:text-slate-300">映射方案</span>
+                                <select
+                                    value={activeTableBinding?.profileId || ''}
+                                    onChange={(e) => handleApplyMappingProfile(e.target.value)}
+                                    className="px-2 py-1 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 rounded-md outline-none max-w-[14rem]"
+                                >
+                                    <option value="">自动匹配（同义词）</option>
+                                    {mappingProfiles
+                                        .filter(p => !p.templateId || p.templateId === template.id)
+                                        .map(p => (
+                                            <option key={p.id} value={p.id}>{p.name}{p.templateId ? '' : ' (shared)'}</option>
+                                        ))}
+                                </select>
+                                {activeTableBinding?.profileId && (
+                                    <button
+                                        onClick={() => handleDeleteMappingProfile(activeTableBinding.profileId!)}
+                                        className="p-1 text-slate-400 hover:text-red-600"
+                                        title="删除此映射方案"
+                                    >
+                                        <X size={14} />
+                                    </button>
+                                )}
+                                <button
+                                    onClick={handleSaveMappingProfile}
+                                    className="flex items-center gap-1 px-2 py-1 bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 border border-blue-200 dark:border-blue-800 rounded-md font-bold"
+                                >
+                                    <Save size={12} /> 保存方案
+                                </button>
+                                <label className="flex items-center gap-1 text-slate-500 dark:text-slate-400 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        className="rounded border-slate-300"
+                                        checked={profileForTemplateOnly}
+                                        onChange={(e) => setProfileForTemplateOnly(e.target.checked)}
+                                    />
+                                    仅用于当前模板
+                                </label>
+                                <button
+                                    onClick={() => setShowSynonymsEditor(true)}
+                                    className="ml-auto text-slate-500 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 underline"
+                                >
+                                    同义词词典
+                                </button>
+                            </div>
                             <div className="flex items-center justify-between mb-2 px-2">
                                 <div className="grid grid-cols-2 gap-4 text-xs font-bold text-slate-400 uppercase tracking-wider flex-1">
                                     <div className="flex items-center gap-2">
@@ -1336,7 +1641,7 @@ const ReportWorkspace: React.FC<ReportWorkspaceProps> = ({ template, data, onUpd
                                             className="w-full pl-8 pr-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none appearance-none bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200"
                                         >
                                             <option value="">-- Leave Empty --</option>
-                                            {gridData.headers.map(h => (
+                                            {activeTableData.headers.map(h => (
                                                 <option key={h} value={h}>{h}</option>
                                             ))}
                                         </select>
@@ -1346,6 +1651,7 @@ const ReportWorkspace: React.FC<ReportWorkspaceProps> = ({ template, data, onUpd
                                 </div>
                             ))}
                         </div>
+                        </div>
                       ) : (
                          /* Manual UI - Template Columns mapped to Excel Columns */
                          <div className="space-y-4">
@@ -1475,11 +1781,19 @@ const ReportWorkspace: React.FC<ReportWorkspaceProps> = ({ template, data, onUpd
                   <div className="px-6 py-4 border-t border-slate-100 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 rounded-b-xl flex justify-between items-center">
                       <div className="text-xs text-slate-500 dark:text-slate-400">
                           {tableConfig.mode === 'template-driven' && tableConfig.replaceRange 
-                             ? '⚠️ This will replace the existing table in your template.' 
+                             ? '⚠️ This will replace the existing table(s) in your template.' 
                              : 'This will insert a new markdown table at your cursor.'}
                       </div>
                       <div className="flex gap-3">
                         <button onClick={() => setShowTableModal(false)} className="px-4 py-2 text-slate-600 dark:text-slate-400 font-medium hover:bg-slate-200 dark:hover:bg-slate-700 rounded-lg transition-colors">Cancel</button>
+                        {tableConfig.mode === 'template-driven' && templateTables.length > 1 && (
+                            <button
+                                onClick={() => populateTemplateTables(templateTables.map(table => table.key))}
+                                className="px-4 py-2 bg-white dark:bg-slate-700 text-blue-700 dark:text-blue-300 border border-blue-200 dark:border-blue-800 font-bold rounded-lg hover:bg-blue-50 dark:hover:bg-slate-600 transition-all"
+                            >
+                                Populate All Tables
+                            </button>
+                        )}
                         <button 
                             onClick={handleInsertTable}
                             className="px-6 py-2 bg-blue-600 text-white font-bold rounded-lg hover:bg-blue-700 shadow-lg shadow-blue-500/20 transition-all flex items-center gap-2"
@@ -1493,6 +1807,46 @@ const ReportWorkspace: React.FC<ReportWorkspaceProps> = ({ template, data, onUpd
           </div>
       )}
 
+      {previewEditing && (
+          <VariableValuePopover
+              key={previewEditing.variable}
+              variable={previewEditing.variable}
+              anchor={previewEditing.anchor}
+              value={variableValues[previewEditing.variable] || ''}
+              headers={gridData.headers}
+              sampleRow={loopRows[0]}
+              candidates={autoMapSuggestions?.mappings.find(m => m.variable === previewEditing.variable)?.candidates || []}
+              onApply={(value) => handlePreviewValue(previewEditing.variable, value)}
+              onOpenExportForm={(value) => openExportFormAt(previewEditing.variable, value)}
+              onClose={closePreviewEditing}
+          />
+      )}
+
+      {showDataRulesEditor && (
+          <DataValidationRulesEditor
+              rules={dataRules}
+              headers={gridData.headers}
+              onSave={handleSaveDataRules}
+              onClose={() => setShowDataRulesEditor(false)}
+          />
+      )}
+
+      {showSynonymsEditor && (
+          <ColumnSynonymsEditor
+              synonyms={columnSynonyms}
+              onSave={handleSaveSynonyms}
+              onClose={() => setShowSynonymsEditor(false)}
+          />
+      )}
+
+      {showHistory && (
+          <TemplateHistory
+              template={template}
+              onRestore={handleRestoreVersion}
+              onClose={() => setShowHistory(false)}
+          />
+      )}
+
       {/* 5. Final Export & Variable Fill Modal */}
       {showExportModal && (
           <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/60 backdrop-blur-sm p-4">
@@ -1514,6 +1868,11 @@ const ReportWorkspace: React.FC<ReportWorkspaceProps> = ({ template, data, onUpd
                           <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
                               We found {detectedVariables.length} remaining placeholders. Fill them in below before generating the report.
                           </p>
+                          {loopCollections.length > 0 && (
+                              <p className="text-xs text-slate-400 mt-1">
+                                  Loops ({loopCollections.map(c => c.name).join(', ')}) repeat over {selectedRowIndices.size > 0 ? `${selectedRowIndices.size} selected` : `all ${gridData.rows.length}`} data rows.
+                              </p>
+                          )}
                       </div>
                       <div className="flex items-center gap-4">
                           <div className="flex items-center gap-3 text-xs font-semibold text-slate-600 dark:text-slate-300">
@@ -1526,6 +1885,9 @@ const ReportWorkspace: React.FC<ReportWorkspaceProps> = ({ template, data, onUpd
                               <span className="flex items-center gap-1">
                                   <XCircle size={14} className="text-rose-500" /> {statusCounts.missing}
                               </span>
+                              <span className="flex items-center gap-1" title="Validation issues">
+                                  <ShieldAlert size={14} className="text-orange-500" /> {validationIssues.length}
+                              </span>
                           </div>
                           <button onClick={() => setShowExportModal(false)} className="p-2 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-full text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 transition-colors">
                               <X size={24}/>
@@ -1558,24 +1920,60 @@ const ReportWorkspace: React.FC<ReportWorkspaceProps> = ({ template, data, onUpd
                                       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                                           {group.variables.map((variable) => {
                                   const status = getVariableStatus(variableValues[variable]);
-                                  const statusClass = status === 'filled'
+                                  const schema = getVariableSchema(template, variable);
+                                  const issue = issueByVariable.get(variable);
+                                  const statusClass = issue && status !== 'missing'
+                                      ? 'bg-orange-50 dark:bg-orange-900/20 border-orange-300 dark:border-orange-700'
+                                      : status === 'filled'
                                       ? 'bg-emerald-50 dark:bg-emerald-900/20 border-emerald-200 dark:border-emerald-800'
                                       : status === 'no-data'
                                           ? 'bg-yellow-50 dark:bg-yellow-900/20 border-yellow-200 dark:border-yellow-800'
                                           : 'bg-rose-50 dark:bg-rose-900/20 border-rose-200 dark:border-rose-800 pulse-slow';
+                                  const inputClass = "w-full text-sm text-slate-800 dark:text-white font-medium placeholder:text-slate-300 dark:placeholder:text-slate-600 outline-none border-b border-transparent focus:border-blue-500 transition-colors bg-transparent";
 
                                   return (
                                   <div key={variable} className={`p-4 rounded-lg border shadow-sm focus-within:ring-2 focus-within:ring-blue-500 transition-all ${statusClass}`}>
-                                      <label className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-2">
-                                          {variable}
+                                      <label className="flex items-center justify-between text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-2">
+                                          <span>
+                                              {variable}
+                                              {schema.required && <span className="text-rose-500 ml-0.5">*</span>}
+                                          </span>
+                                          {schema.type !== 'string' && (
+                                              <span className="text-[10px] font-medium normal-case tracking-normal text-slate-400">{schema.type}</span>
+                                          )}
                                       </label>
-                                      <input 
-                                          type="text"
-                                          placeholder={`Enter value for ${variable}`}
-                                          value={variableValues[variable] || ''}
-                                          onChange={(e) => setVariableValues({ ...variableValues, [variable]: e.target.value })}
-                                          className="w-full text-sm text-slate-800 dark:text-white font-medium placeholder:text-slate-300 dark:placeholder:text-slate-600 outline-none border-b border-transparent focus:border-blue-500 transition-colors bg-transparent"
-                                      />
+                                      {schema.type === 'enum' && schema.options && schema.options.length > 0 ? (
+                                          <select
+                                              value={variableValues[variable] || ''}
+                                              id={`variable-input-${variable}`}
+                                              onChange={(e) => commitChange(`Fill ${variable}`, state => ({ variableValues: { ...state.variableValues, [variable]: e.target.value } }), `variable:${variable}`)}
+                                              data-edit-history
+                                              className={inputClass}
+                                          >
+                                              <option value="">-- Select --</option>
+                                              {schema.options.map(option => (
+                                                  <option key={option} value={option}>{option}</option>
+                                              ))}
+                                              <option value="No data">No data</option>
+                                          </select>
+                                      ) : (
+                                          <input 
+                                              type="text"
+                                              placeholder={schema.type === 'date' && schema.format ? schema.format : `Enter value for ${variable}`}
+                                              value={variableValues[variable] || ''}
+                                              id={`variable-input-${variable}`}
+                                              onChange={(e) => commitChange(`Fill ${variable}`, state => ({ variableValues: { ...state.variableValues, [variable]: e.target.value } }), `variable:${variable}`)}
+                                              data-edit-history
+                                              className={inputClass}
+                                          />
+                                      )}
+                                      {issue ? (
+                                          <div className={`mt-2 text-[10px] flex items-center gap-1 font-medium ${issue.blocking ? 'text-rose-500' : 'text-orange-600 dark:text-orange-400'}`}>
+                                              <span className={`w-1.5 h-1.5 rounded-full inline-block ${issue.blocking ? 'bg-rose-500' : 'bg-orange-500'}`}></span>
+                                              {status === 'missing' ? 'Missing value (required)' : issue.message}
+                                          </div>
+                                      ) : (
+                                          <>
                                       {status === 'missing' && (
                                           <div className="mt-2 text-[10px] text-rose-500 flex items-center gap-1 font-medium">
                                               <span className="w-1.5 h-1.5 rounded-full bg-rose-500 inline-block"></span>
@@ -1594,12 +1992,40 @@ const ReportWorkspace: React.FC<ReportWorkspaceProps> = ({ template, data, onUpd
                                               Filled
                                           </div>
                                       )}
+                                          </>
+                                      )}
                                   </div>
                               );
                                           })}
                                       </div>
                                   </div>
                               ))}
+                              {computedNames.length > 0 && (
+                                  <div>
+                                      <div className="mb-3 flex items-center gap-2">
+                                          <div className="h-5 w-1.5 rounded-full bg-indigo-300 dark:bg-indigo-600" />
+                                          <h4 className="text-sm font-bold text-slate-700 dark:text-slate-200 flex items-center gap-1.5">
+                                              <Calculator size={14} /> Computed
+                                          </h4>
+                                      </div>
+                                      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                                          {(template.computedVariables || []).map(computed => {
+                                              const error = computedResult.errors[computed.name];
+                                              return (
+                                                  <div key={computed.name} className={`p-4 rounded-lg border shadow-sm ${error ? 'bg-rose-50 dark:bg-rose-900/20 border-rose-200 dark:border-rose-800' : 'bg-slate-100 dark:bg-slate-800 border-slate-200 dark:border-slate-700'}`}>
+                                                      <label className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-2">{computed.name}</label>
+                                                      <div className="text-sm font-medium text-slate-800 dark:text-white min-h-[1.25rem] select-all">
+                                                          {error ? '' : computedResult.values[computed.name]}
+                                                      </div>
+                                                      <div className={`mt-2 text-[10px] font-mono truncate ${error ? 'text-rose-500' : 'text-slate-400'}`} title={computed.expression}>
+                                                          {error || `= ${computed.expression}`}
+                                                      </div>
+                                                  </div>
+                                              );
+                                          })}
+                                      </div>
+                                  </div>
+                              )}
                           </div>
                       )}
                   </div>
@@ -1617,7 +2043,7 @@ const ReportWorkspace: React.FC<ReportWorkspaceProps> = ({ template, data, onUpd
                                                 <input
                                                     ref={autoMapFileRef}
                                                     type="file"
-                                                    accept=".txt,.pdf,.docx,.xlsx,.xls,.csv"
+                                                    accept=".txt,.pdf,.docx,.xlsx,.xls,.csv,.tsv,.json"
                                                     className="hidden"
                                                     onChange={handleAutoMapFileUpload}
                                                 />
@@ -1655,6 +2081,15 @@ const ReportWorkspace: React.FC<ReportWorkspaceProps> = ({ template, data, onUpd
                             {isExportingPdf ? 'Exporting...' : 'Export PDF'}
                         </button>
 
+                        <button 
+                            onClick={handleExportDocx}
+                            disabled={isExportingDocx}
+                            className="px-6 py-2.5 bg-blue-600 text-white font-bold rounded-lg hover:bg-blue-700 shadow-lg shadow-blue-500/20 transition-all flex items-center gap-2 transform hover:-translate-y-0.5 disabled:opacity-50 disabled:cursor-wait"
+                        >
+                            <FileText size={20} />
+                            {isExportingDocx ? 'Exporting...' : 'Export Word'}
+                        </button>
+
                         <button 
                             onClick={handleDownloadMarkdown}
                             className="px-6 py-2.5 bg-green-600 text-white font-bold rounded-lg hover:bg-green-700 shadow-lg shadow-green-500/20 transition-all flex items-center gap-2 transform hover:-translate-y-0.5"
@@ -1,11 +1,17 @@
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useRef, useMemo } from 'react';
 import { analyzePdfWithVision, analyzePdfStructure, suggestVariableMappingsFromDocument } from '../services/geminiService';
 import { extractTextFromPdf } from '../utils/fileProcessors';
-import { Template } from '../types';
+import { ComputedVariable, Template, VariableSchema } from '../types';
+import VariableSchemaEditor from './VariableSchemaEditor';
+import ComputedVariablesEditor from './ComputedVariablesEditor';
+import { getComputedInputVariables } from '../utils/expressionEvaluator';
+import { AUTO_VARIABLES } from '../utils/reportRenderer';
+import { getTemplateStructure, extractTemplateVariables } from '../utils/templateEngine';
+import { TEMPLATE_FILTER_NAMES } from '../utils/templateFilters';
 import { Loader2, FileText, Wand2, Save, ArrowLeft, Eye, AlertCircle } from 'lucide-react';
 
 interface TemplateEditorProps {
-  onSave: (template: Template) => void;
+  onSave: (template: Template, note?: string) => void;
   onCancel: () => void;
   existingTemplate?: Template;
 }
@@ -18,6 +24,25 @@ const TemplateEditor: React.FC<TemplateEditorProps> = ({ onSave, onCancel, exist
   const [error, setError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [defaultValues, setDefaultValues] = useState<Record<string, string>>(existingTemplate?.defaultValues || {});
+  const [variableSchemas, setVariableSchemas] = useState<Record<string, VariableSchema>>(existingTemplate?.variableSchemas || {});
+  const [computedVariables, setComputedVariables] = useState<ComputedVariable[]>(existingTemplate?.computedVariables || []);
+  const [versionNote, setVersionNote] = useState('');
+
+  const templateStructure = useMemo(() => getTemplateStructure(templateContent), [templateContent]);
+
+  // User-entered variables: placeholders and computed-variable inputs, minus the computed ones
+  const contentVariables = useMemo(() => {
+    const computedNames = computedVariables.map(c => c.name);
+    const inputs = getComputedInputVariables(computedVariables, templateStructure.collections.map(c => c.name));
+    return Array.from(new Set([...templateStructure.variables, ...inputs]))
+      .filter(v => !AUTO_VARIABLES.includes(v) && !computedNames.includes(v));
+  }, [templateStructure, computedVariables]);
+
+  const sampleValues = useMemo(() => {
+    const values: Record<string, string> = {};
+    contentVariables.forEach(v => { values[v] = defaultValues[v] || ''; });
+    return values;
+  }, [contentVariables, defaultValues]);
 
   const normalizeReportTitle = (content: string) => {
     const singleLinePattern = /^#\s*\{\{CompanyName\}\}[^\n]*Material\s+Safety\s+Data\s+Sheet\s*\(MSDS\)[^\n]*$/m;
@@ -77,7 +102,7 @@ const TemplateEditor: React.FC<TemplateEditorProps> = ({ onSave, onCancel, exist
 
       const variables = result.detectedVariables?.length
         ? result.detectedVariables
-        : Array.from(normalizedContent.matchAll(/\{\{([^}]+)\}\}/g)).map(m => m[1]);
+        : extractTemplateVariables(normalizedContent);
 
       // Try to prefill variable values
       try {
@@ -117,24 +142,30 @@ const TemplateEditor: React.FC<TemplateEditorProps> = ({ onSave, onCancel, exist
     }
 
     // Extract variables again in case user edited them manually
-    const regex = /\{\{([^}]+)\}\}/g;
-    const matches = new Set<string>();
-    let match;
-    while ((match = regex.exec(templateContent)) !== null) {
-      matches.add(match[1]);
-    }
+    const matches = new Set(extractTemplateVariables(templateContent));
+
+    // Drop rules for variables that no longer exist in the content
+    const schemas: Record<string, VariableSchema> = {};
+    new Set([...matches, ...contentVariables]).forEach(variable => {
+      if (variableSchemas[variable]) schemas[variable] = variableSchemas[variable];
+    });
+
+    const computed = computedVariables.filter(c => c.name.trim() && c.expression.trim());
 
     const newTemplate: Template = {
+      ...existingTemplate,
       id: existingTemplate?.id || crypto.randomUUID(),
       name: templateName,
       description: `Template with ${matches.size} variables`,
       content: templateContent,
       variables: Array.from(matches),
       defaultValues: defaultValues,
+      variableSchemas: schemas,
+      computedVariables: computed.length > 0 ? computed : undefined,
       createdAt: existingTemplate?.createdAt || Date.now(),
     };
 
-    onSave(newTemplate);
+    onSave(newTemplate, versionNote);
   };
 
   return (
@@ -249,9 +280,37 @@ const TemplateEditor: React.FC<TemplateEditorProps> = ({ onSave, onCancel, exist
                     <li>Variables are marked as <code>{`{{VariableName}}`}</code>.</li>
                     <li>You can manually add or rename variables.</li>
                     <li>Ensure variable names match your future Excel headers roughly (we'll map them later).</li>
+                    <li>Use <code>{`{{#if Var}}…{{/if}}`}</code> for optional sections and <code>{`{{#each Rows}}…{{/each}}`}</code> to repeat a table row for every selected data row.</li>
+                    <li>Read other worksheets with <code>{`{{Sheet.Column}}`}</code>; <code>{`{{#each Sheet}}`}</code> loops over that sheet's rows.</li>
+                    <li>Format values with filters, e.g. <code>{`{{ReportDate | date:"YYYY-MM-DD"}}`}</code>, <code>{`{{Weight | number:2}}`}</code>, <code>{`{{Tel | default:"N/A"}}`}</code> ({TEMPLATE_FILTER_NAMES.join(', ')}).</li>
                   </ul>
                 </div>
 
+                <VariableSchemaEditor
+                  variables={contentVariables}
+                  schemas={variableSchemas}
+                  onChange={setVariableSchemas}
+                />
+
+                <ComputedVariablesEditor
+                  computed={computedVariables}
+                  sampleValues={sampleValues}
+                  onChange={setComputedVariables}
+                />
+
+                {existingTemplate && (
+                  <div className="space-y-2">
+                    <label className="text-sm font-semibold text-slate-700 dark:text-slate-300">Version Note</label>
+                    <input
+                      type="text"
+                      value={versionNote}
+                      onChange={(e) => setVersionNote(e.target.value)}
+                      className="w-full px-4 py-2 rounded-lg border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all"
+                      placeholder="What changed in this version? (optional)"
+                    />
+                  </div>
+                )}
+
                  <button
                   onClick={handleSave}
                   className="w-full flex items-center justify-center gap-2 bg-green-600 hover:bg-green-700 text-white py-3 rounded-lg font-medium shadow-md transition-all"
@@ -273,6 +332,17 @@ const TemplateEditor: React.FC<TemplateEditorProps> = ({ onSave, onCancel, exist
                   className="flex-1 w-full p-4 rounded-lg border border-slate-300 dark:border-slate-700 font-mono text-sm leading-relaxed focus:ring-2 focus:ring-blue-500 outline-none resize-none bg-slate-50 dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400"
                   placeholder="Template content will appear here..."
                 />
+                {templateStructure.errors.length > 0 && (
+                  <div className="mt-2 text-xs text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 border border-red-100 dark:border-red-900 rounded-md px-3 py-2 flex items-start gap-2">
+                    <AlertCircle size={14} className="shrink-0 mt-0.5" />
+                    <span>{templateStructure.errors.join('; ')}</span>
+                  </div>
+                )}
+                {templateStructure.collections.length > 0 && (
+                  <div className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+                    Loops: {templateStructure.collections.map(c => `${c.name} (${c.fields.join(', ') || 'no fields'})`).join(' · ')}
+                  </div>
+                )}
               </div>
             </div>
           </div>
@@ -0,0 +1,145 @@
+import React, { useMemo, useState } from 'react';
+import { Template, TemplateVersion } from '../types';
+import { diffLines, getVersionLabel, DiffRow } from '../utils/templateVersions';
+import { History, RotateCcw, X } from 'lucide-react';
+
+interface TemplateHistoryProps {
+  template: Template;
+  onRestore: (version: TemplateVersion) => void;
+  onClose: () => void;
+}
+
+const CURRENT = 'current';
+
+const rowClasses: Record<DiffRow['type'], { left: string; right: string }> = {
+  same: { left: '', right: '' },
+  added: { left: 'bg-slate-50 dark:bg-slate-800/50', right: 'bg-emerald-50 dark:bg-emerald-900/30' },
+  removed: { left: 'bg-rose-50 dark:bg-rose-900/30', right: 'bg-slate-50 dark:bg-slate-800/50' },
+  changed: { left: 'bg-rose-50 dark:bg-rose-900/30', right: 'bg-emerald-50 dark:bg-emerald-900/30' }
+};
+
+const TemplateHistory: React.FC<TemplateHistoryProps> = ({ template, onRestore, onClose }) => {
+  const versions = useMemo(() => [...(template.versions ?? [])].reverse(), [template.versions]);
+  const [selectedId, setSelectedId] = useState<string | null>(versions[1]?.id ?? versions[0]?.id ?? null);
+  const [compareId, setCompareId] = useState<string>(CURRENT);
+  const [changesOnly, setChangesOnly] = useState(false);
+
+  const selected = versions.find(v => v.id === selectedId) ?? null;
+  const compareContent = compareId === CURRENT
+    ? template.content
+    : versions.find(v => v.id === compareId)?.content ?? template.content;
+
+  const rows = useMemo(() => {
+    if (!selected) return [];
+    return diffLines(selected.content, compareContent);
+  }, [selected, compareContent]);
+
+  const changeCount = rows.filter(row => row.type !== 'same').length;
+  const visibleRows = changesOnly ? rows.filter(row => row.type !== 'same') : rows;
+
+  const handleRestore = () => {
+    if (!selected) return;
+    const confirmed = window.confirm(`确定要回滚到 ${getVersionLabel(template, selected)} 吗？当前内容会作为新版本保留在历史中。`);
+    if (confirmed) onRestore(selected);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-slate-900 rounded-xl shadow-2xl w-full max-w-6xl h-[85vh] flex flex-col border border-slate-200 dark:border-slate-800">
+        <div className="p-4 border-b border-slate-100 dark:border-slate-800 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <History size={18} className="text-blue-600" />
+            <h3 className="font-bold text-slate-800 dark:text-white">Version History</h3>
+            <span className="text-xs text-slate-400 font-mono">{template.name}</span>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200">
+            <X size={20} />
+          </button>
+        </div>
+
+        {versions.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center text-sm text-slate-400">
+            No saved versions yet. Versions are recorded each time the template is saved.
+          </div>
+        ) : (
+          <div className="flex-1 min-h-0 flex">
+            {/* Version list */}
+            <div className="w-64 shrink-0 border-r border-slate-100 dark:border-slate-800 overflow-y-auto">
+              {versions.map((version, idx) => {
+                const isSelected = version.id === selectedId;
+                return (
+                  <button
+                    key={version.id}
+                    onClick={() => setSelectedId(version.id)}
+                    className={`w-full text-left px-4 py-3 border-b border-slate-100 dark:border-slate-800 transition-colors ${isSelected ? 'bg-blue-50 dark:bg-blue-900/20' : 'hover:bg-slate-50 dark:hover:bg-slate-800'}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-bold text-slate-800 dark:text-white">{getVersionLabel(template, version)}</span>
+                      {idx === 0 && <span className="text-[10px] text-emerald-600 dark:text-emerald-400 font-medium">Latest</span>}
+                    </div>
+                    <div className="text-[11px] text-slate-400">{new Date(version.createdAt).toLocaleString()}</div>
+                    {version.note && (
+                      <div className="text-xs text-slate-600 dark:text-slate-300 mt-1 line-clamp-2">{version.note}</div>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+
+            {/* Diff */}
+            <div className="flex-1 min-w-0 flex flex-col">
+              <div className="p-3 border-b border-slate-100 dark:border-slate-800 flex items-center justify-between gap-3 text-xs">
+                <div className="flex items-center gap-2 text-slate-500 dark:text-slate-400">
+                  <span className="font-medium text-slate-700 dark:text-slate-200">{selected ? getVersionLabel(template, selected) : '-'}</span>
+                  <span>vs</span>
+                  <select
+                    value={compareId}
+                    onChange={(e) => setCompareId(e.target.value)}
+                    className="px-2 py-1 rounded border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 outline-none"
+                  >
+                    <option value={CURRENT}>Current template</option>
+                    {versions.map(version => (
+                      <option key={version.id} value={version.id}>{getVersionLabel(template, version)}</option>
+                    ))}
+                  </select>
+                  <span className="ml-2">{changeCount} changed line(s)</span>
+                  <label className="flex items-center gap-1 ml-2 cursor-pointer">
+                    <input type="checkbox" checked={changesOnly} onChange={(e) => setChangesOnly(e.target.checked)} className="rounded border-slate-300" />
+                    Changes only
+                  </label>
+                </div>
+                <button
+                  onClick={handleRestore}
+                  disabled={!selected}
+                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-amber-500 hover:bg-amber-600 text-white font-medium disabled:opacity-50 transition-colors"
+                >
+                  <RotateCcw size={14} /> Restore this version
+                </button>
+              </div>
+
+              <div className="flex-1 overflow-auto font-mono text-xs">
+                <table className="w-full border-collapse table-fixed">
+                  <tbody>
+                    {visibleRows.map((row, idx) => (
+                      <tr key={idx} className="align-top">
+                        <td className="w-10 px-2 text-right text-slate-300 dark:text-slate-600 select-none">{row.leftNumber ?? ''}</td>
+                        <td className={`px-2 whitespace-pre-wrap break-words text-slate-700 dark:text-slate-300 border-r border-slate-100 dark:border-slate-800 ${rowClasses[row.type].left}`}>{row.left ?? ''}</td>
+                        <td className="w-10 px-2 text-right text-slate-300 dark:text-slate-600 select-none">{row.rightNumber ?? ''}</td>
+                        <td className={`px-2 whitespace-pre-wrap break-words text-slate-700 dark:text-slate-300 ${rowClasses[row.type].right}`}>{row.right ?? ''}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {visibleRows.length === 0 && (
+                  <div className="p-6 text-center text-slate-400">No differences.</div>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TemplateHistory;
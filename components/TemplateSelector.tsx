@@ -1,49 +1,94 @@
 import React, { useRef, useState } from 'react';
 import { Template } from '../types';
 import TemplateEditor from './TemplateEditor';
-import { Plus, FileText, ArrowLeft, Search, Upload, Trash2, Edit } from 'lucide-react';
+import TemplateHistory from './TemplateHistory';
+import { restoreTemplateVersion, getVersionLabel } from '../utils/templateVersions';
+import { exportTemplatesAsJson, exportTemplatesAsZip, findImportConflicts, parseTemplateBundle, planTemplateImport, ImportConflictStrategy } from '../utils/templateBundle';
+import { downloadBlob } from '../utils/download';
+import { extractTemplateVariables } from '../utils/templateEngine';
+import { Plus, FileText, ArrowLeft, Search, Upload, Trash2, Edit, SlidersHorizontal, History, Download, X, Mails } from 'lucide-react';
 
 interface TemplateSelectorProps {
   templates: Template[];
   onSelect: (template: Template) => void;
+  onMailMerge: (template: Template) => void; // One report per data row
   onCreate: (template: Template) => void;
+  onUpdate: (template: Template, note?: string) => void;
+  onImport: (templates: Template[]) => void;
   onDelete: (id: string) => void;
   onRename: (id: string, name: string) => void;
   onBack: () => void;
   excelFileName?: string;
 }
 
-const TemplateSelector: React.FC<TemplateSelectorProps> = ({ templates, onSelect, onCreate, onDelete, onRename, onBack, excelFileName }) => {
+const TemplateSelector: React.FC<TemplateSelectorProps> = ({ templates, onSelect, onMailMerge, onCreate, onUpdate, onImport, onDelete, onRename, onBack, excelFileName }) => {
   const [isCreating, setIsCreating] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<Template | null>(null);
+  const [historyTemplateId, setHistoryTemplateId] = useState<string | null>(null);
   const [search, setSearch] = useState('');
   const [isUploading, setIsUploading] = useState(false);
   const [uploadError, setUploadError] = useState<string | null>(null);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const [pendingImport, setPendingImport] = useState<{ templates: Template[]; conflicts: Template[] } | null>(null);
+  const [conflictStrategy, setConflictStrategy] = useState<ImportConflictStrategy>('skip');
   const markdownInputRef = useRef<HTMLInputElement>(null);
 
-  const extractVariables = (content: string) => {
-    const regex = /\{\{([^}]+)\}\}/g;
-    const matches = new Set<string>();
-    let match;
-    while ((match = regex.exec(content)) !== null) {
-      matches.add(match[1]);
+  const applyImport = (imported: Template[], strategy: ImportConflictStrategy) => {
+    const plan = planTemplateImport(templates, imported, strategy);
+    if (plan.templates.length > 0) {
+      onImport(plan.templates);
     }
-    return Array.from(matches);
+    const skipped = plan.skipped.length > 0 ? `，跳过 ${plan.skipped.length} 个` : '';
+    setImportMessage(`已导入 ${plan.templates.length} 个模板${skipped}。`);
+    setPendingImport(null);
   };
 
-  const handleMarkdownUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleBundleUpload = async (file: File) => {
+    const imported = await parseTemplateBundle(file);
+    if (imported.length === 0) {
+      throw new Error('模板包中没有模板。');
+    }
+    const conflicts = findImportConflicts(templates, imported);
+    if (conflicts.length === 0) {
+      applyImport(imported, 'skip');
+    } else {
+      setConflictStrategy('skip');
+      setPendingImport({ templates: imported, conflicts });
+    }
+  };
+
+  const handleExportTemplates = async (list: Template[]) => {
+    try {
+      if (list.length === 1) {
+        downloadBlob(exportTemplatesAsJson(list), `${list[0].name}.smartdoc.json`);
+      } else {
+        downloadBlob(await exportTemplatesAsZip(list), `SmartDoc_Templates_${new Date().toISOString().slice(0, 10)}.zip`);
+      }
+    } catch (err: any) {
+      setUploadError(err?.message || '导出模板失败。');
+    }
+  };
+
+  const handleTemplateUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
     setIsUploading(true);
     setUploadError(null);
+    setImportMessage(null);
 
     try {
+      if (/\.(json|zip)$/i.test(file.name)) {
+        await handleBundleUpload(file);
+        return;
+      }
+
       const content = await file.text();
       if (!content.trim()) {
         throw new Error('Markdown 文件为空，无法导入模板。');
       }
 
-      const variables = extractVariables(content);
+      const variables = extractTemplateVariables(content);
       const baseName = file.name.replace(/\.(md|markdown)$/i, '');
 
       const newTemplate: Template = {
@@ -57,7 +102,7 @@ const TemplateSelector: React.FC<TemplateSelectorProps> = ({ templates, onSelect
 
       onCreate(newTemplate);
     } catch (err: any) {
-      setUploadError(err?.message || '导入 Markdown 模板失败。');
+      setUploadError(err?.message || '导入模板失败。');
     } finally {
       setIsUploading(false);
       if (markdownInputRef.current) {
@@ -71,6 +116,16 @@ const TemplateSelector: React.FC<TemplateSelectorProps> = ({ templates, onSelect
     t.description.toLowerCase().includes(search.toLowerCase())
   );
 
+  if (editingTemplate) {
+    return (
+      <TemplateEditor 
+        existingTemplate={editingTemplate}
+        onSave={(t, note) => { onUpdate(t, note); setEditingTemplate(null); }}
+        onCancel={() => setEditingTemplate(null)}
+      />
+    );
+  }
+
   if (isCreating) {
     return (
       <TemplateEditor 
@@ -80,8 +135,20 @@ const TemplateSelector: React.FC<TemplateSelectorProps> = ({ templates, onSelect
     );
   }
 
+  const historyTemplate = templates.find(t => t.id === historyTemplateId) ?? null;
+
   return (
     <div className="space-y-6">
+      {historyTemplate && (
+        <TemplateHistory
+          template={historyTemplate}
+          onRestore={(version) => {
+            onUpdate(restoreTemplateVersion(historyTemplate, version), `Rolled back to ${getVersionLabel(historyTemplate, version)}`);
+          }}
+          onClose={() => setHistoryTemplateId(null)}
+        />
+      )}
+
       <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
         <div>
           <button onClick={onBack} className="text-slate-500 hover:text-slate-800 dark:text-slate-400 dark:hover:text-slate-200 flex items-center gap-2 mb-2 transition-colors">
@@ -104,13 +171,23 @@ const TemplateSelector: React.FC<TemplateSelectorProps> = ({ templates, onSelect
               className="pl-10 pr-4 py-2.5 rounded-lg border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 focus:ring-2 focus:ring-blue-500 outline-none w-full md:w-64 transition-colors"
             />
           </div>
+          <button
+            type="button"
+            onClick={() => handleExportTemplates(filteredTemplates)}
+            disabled={filteredTemplates.length === 0}
+            className="flex items-center gap-2 border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700 px-4 py-2.5 rounded-lg font-medium shadow-sm transition-all whitespace-nowrap disabled:opacity-50"
+            title="Export the listed templates as a ZIP bundle"
+          >
+            <Download size={18} />
+            Export
+          </button>
           <label className="relative">
             <input
               ref={markdownInputRef}
               type="file"
-              accept=".md,.markdown,text/markdown"
+              accept=".md,.markdown,text/markdown,.json,application/json,.zip"
               className="hidden"
-              onChange={handleMarkdownUpload}
+              onChange={handleTemplateUpload}
               onClick={(e) => {
                 const input = e.currentTarget as HTMLInputElement;
                 input.value = '';
@@ -130,6 +207,71 @@ const TemplateSelector: React.FC<TemplateSelectorProps> = ({ templates, onSelect
         </div>
       </div>
 
+      {importMessage && (
+        <div className="flex items-center justify-between text-emerald-700 dark:text-emerald-300 bg-emerald-50 dark:bg-emerald-900/20 px-4 py-2 rounded-md text-sm border border-emerald-100 dark:border-emerald-900">
+          {importMessage}
+          <button onClick={() => setImportMessage(null)} className="text-emerald-400 hover:text-emerald-600">
+            <X size={16} />
+          </button>
+        </div>
+      )}
+
+      {pendingImport && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <div className="bg-white dark:bg-slate-900 rounded-xl shadow-2xl w-full max-w-lg border border-slate-200 dark:border-slate-800">
+            <div className="p-4 border-b border-slate-100 dark:border-slate-800 flex items-center justify-between">
+              <h3 className="font-bold text-slate-800 dark:text-white">Import Templates</h3>
+              <button onClick={() => setPendingImport(null)} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200">
+                <X size={20} />
+              </button>
+            </div>
+            <div className="p-4 space-y-4 text-sm">
+              <p className="text-slate-600 dark:text-slate-300">
+                {pendingImport.templates.length} template(s) in bundle. {pendingImport.conflicts.length} already exist in your library:
+              </p>
+              <ul className="max-h-32 overflow-y-auto text-xs font-mono text-slate-500 dark:text-slate-400 bg-slate-50 dark:bg-slate-800 rounded p-2 space-y-1">
+                {pendingImport.conflicts.map(t => <li key={t.id}>{t.name}</li>)}
+              </ul>
+              <div className="space-y-2">
+                {([
+                  { value: 'skip', label: 'Skip', hint: 'Keep the existing templates' },
+                  { value: 'overwrite', label: 'Overwrite', hint: 'Replace them (previous content stays in version history)' },
+                  { value: 'duplicate', label: 'Duplicate', hint: 'Import as copies with new ids' }
+                ] as { value: ImportConflictStrategy; label: string; hint: string }[]).map(option => (
+                  <label key={option.value} className="flex items-start gap-2 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="conflict-strategy"
+                      checked={conflictStrategy === option.value}
+                      onChange={() => setConflictStrategy(option.value)}
+                      className="mt-0.5"
+                    />
+                    <span>
+                      <span className="font-medium text-slate-800 dark:text-white">{option.label}</span>
+                      <span className="block text-xs text-slate-500 dark:text-slate-400">{option.hint}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="p-4 border-t border-slate-100 dark:border-slate-800 flex justify-end gap-2">
+              <button
+                onClick={() => setPendingImport(null)}
+                className="px-4 py-2 rounded-lg text-sm text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => applyImport(pendingImport.templates, conflictStrategy)}
+                className="px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 hover:bg-blue-700 text-white"
+              >
+                Import
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {uploadError && (
         <div className="text-red-500 bg-red-50 dark:bg-red-900/20 px-4 py-2 rounded-md text-sm border border-red-100 dark:border-red-900">
           {uploadError}
@@ -165,6 +307,54 @@ const TemplateSelector: React.FC<TemplateSelectorProps> = ({ templates, onSelect
                   <FileText size={24} />
                 </div>
                 <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    type="button"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onMailMerge(template);
+                    }}
+                    className="p-2 text-slate-400 hover:text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-md transition-colors"
+                    title="Mail merge: preview and export one report per data row"
+                    aria-label="Mail merge"
+                  >
+                    <Mails size={16} />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setEditingTemplate(template);
+                    }}
+                    className="p-2 text-slate-400 hover:text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-md transition-colors"
+                    title="Edit content & variable rules"
+                    aria-label="Edit template"
+                  >
+                    <SlidersHorizontal size={16} />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setHistoryTemplateId(template.id);
+                    }}
+                    className="p-2 text-slate-400 hover:text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-md transition-colors"
+                    title="Version history"
+                    aria-label="Version history"
+                  >
+                    <History size={16} />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleExportTemplates([template]);
+                    }}
+                    className="p-2 text-slate-400 hover:text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-md transition-colors"
+                    title="Export as bundle"
+                    aria-label="Export template"
+                  >
+                    <Download size={16} />
+                  </button>
                   <button
                     type="button"
                     onClick={(e) => {
@@ -204,6 +394,7 @@ const TemplateSelector: React.FC<TemplateSelectorProps> = ({ templates, onSelect
             <div className="px-6 py-4 bg-slate-50 dark:bg-slate-900/50 border-t border-slate-100 dark:border-slate-700 flex items-center justify-between">
               <span className="text-xs font-mono text-slate-500 dark:text-slate-400 bg-white dark:bg-slate-800 px-2 py-1 rounded border border-slate-200 dark:border-slate-700">
                 {template.variables.length} Variables
+                {template.versions && template.versions.length > 0 && ` · v${template.versions.length}`}
               </span>
               <span className="text-sm font-medium text-blue-600 dark:text-blue-400 opacity-0 group-hover:opacity-100 transform translate-x-2 group-hover:translate-x-0 transition-all flex items-center gap-1">
                 Select <ArrowLeft className="rotate-180" size={14} />
@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { VariableSchema, VariableType } from '../types';
+import { VARIABLE_TYPES, DEFAULT_DATE_FORMAT, inferVariableSchema } from '../utils/variableSchema';
+import { ChevronDown, ChevronRight, Wand2 } from 'lucide-react';
+
+interface VariableSchemaEditorProps {
+  variables: string[];
+  schemas: Record<string, VariableSchema>;
+  onChange: (schemas: Record<string, VariableSchema>) => void;
+}
+
+const VariableSchemaEditor: React.FC<VariableSchemaEditorProps> = ({ variables, schemas, onChange }) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const getSchema = (variable: string): VariableSchema => schemas[variable] ?? { type: 'string' };
+
+  const updateSchema = (variable: string, patch: Partial<VariableSchema>) => {
+    onChange({ ...schemas, [variable]: { ...getSchema(variable), ...patch } });
+  };
+
+  const handleTypeChange = (variable: string, type: VariableType) => {
+    // Reset rules that only make sense for the previous type
+    const next: VariableSchema = { type, required: getSchema(variable).required, pattern: getSchema(variable).pattern };
+    if (type === 'date') next.format = DEFAULT_DATE_FORMAT;
+    if (type === 'percentage') {
+      next.min = 0;
+      next.max = 100;
+    }
+    onChange({ ...schemas, [variable]: next });
+  };
+
+  const handleInferAll = () => {
+    const next = { ...schemas };
+    variables.forEach(variable => {
+      if (!next[variable]) next[variable] = inferVariableSchema(variable);
+    });
+    onChange(next);
+  };
+
+  const parseOptionalNumber = (raw: string) => {
+    if (raw.trim() === '') return undefined;
+    const n = Number(raw);
+    return Number.isNaN(n) ? undefined : n;
+  };
+
+  const inputClass = "w-full px-2 py-1 rounded border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-xs text-slate-900 dark:text-white placeholder:text-slate-400 focus:ring-1 focus:ring-blue-500 outline-none";
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-semibold text-slate-700 dark:text-slate-300">
+          Variable Rules <span className="text-xs font-normal text-slate-400">({variables.length})</span>
+        </label>
+        <button
+          type="button"
+          onClick={handleInferAll}
+          className="flex items-center gap-1 text-xs text-indigo-600 dark:text-indigo-400 hover:text-indigo-800 dark:hover:text-indigo-300 font-medium"
+          title="Guess types from variable names for variables without rules"
+        >
+          <Wand2 size={12} /> Detect types
+        </button>
+      </div>
+
+      {variables.length === 0 ? (
+        <p className="text-xs text-slate-400">No variables detected yet.</p>
+      ) : (
+        <div className="max-h-80 overflow-y-auto border border-slate-200 dark:border-slate-700 rounded-lg divide-y divide-slate-100 dark:divide-slate-800">
+          {variables.map(variable => {
+            const schema = getSchema(variable);
+            const isExpanded = expanded === variable;
+            const isNumeric = schema.type === 'number' || schema.type === 'percentage';
+
+            return (
+              <div key={variable} className="p-2 bg-white dark:bg-slate-900">
+                <div className="flex items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setExpanded(isExpanded ? null : variable)}
+                    className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200"
+                  >
+                    {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                  </button>
+                  <span className="flex-1 truncate font-mono text-xs text-slate-700 dark:text-slate-200" title={variable}>{variable}</span>
+                  <select
+                    value={schema.type}
+                    onChange={(e) => handleTypeChange(variable, e.target.value as VariableType)}
+                    className="px-1.5 py-1 rounded border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-xs text-slate-800 dark:text-slate-200 outline-none"
+                  >
+                    {VARIABLE_TYPES.map(t => (
+                      <option key={t.value} value={t.value}>{t.label}</option>
+                    ))}
+                  </select>
+                  <label className="flex items-center gap-1 text-[10px] text-slate-500 dark:text-slate-400 cursor-pointer" title="Required">
+                    <input
+                      type="checkbox"
+                      checked={Boolean(schema.required)}
+                      onChange={(e) => updateSchema(variable, { required: e.target.checked })}
+                      className="rounded border-slate-300"
+                    />
+                    Req.
+                  </label>
+                </div>
+
+                {isExpanded && (
+                  <div className="mt-2 ml-6 grid grid-cols-2 gap-2">
+                    {schema.type === 'date' && (
+                      <div className="col-span-2">
+                        <span className="text-[10px] text-slate-400">Format</span>
+                        <input
+                          type="text"
+                          value={schema.format || ''}
+                          onChange={(e) => updateSchema(variable, { format: e.target.value || undefined })}
+                          placeholder={DEFAULT_DATE_FORMAT}
+                          className={inputClass}
+                        />
+                      </div>
+                    )}
+                    {schema.type === 'enum' && (
+                      <div className="col-span-2">
+                        <span className="text-[10px] text-slate-400">Allowed values (comma separated)</span>
+                        <input
+                          type="text"
+                          value={(schema.options || []).join(', ')}
+                          onChange={(e) => updateSchema(variable, {
+                            options: e.target.value.split(',').map(o => o.trim()).filter(Boolean)
+                          })}
+                          className={inputClass}
+                        />
+                      </div>
+                    )}
+                    <div>
+                      <span className="text-[10px] text-slate-400">{isNumeric ? 'Min' : 'Min length'}</span>
+                      <input
+                        type="number"
+                        value={schema.min ?? ''}
+                        onChange={(e) => updateSchema(variable, { min: parseOptionalNumber(e.target.value) })}
+                        className={inputClass}
+                      />
+                    </div>
+                    <div>
+                      <span className="text-[10px] text-slate-400">{isNumeric ? 'Max' : 'Max length'}</span>
+                      <input
+                        type="number"
+                        value={schema.max ?? ''}
+                        onChange={(e) => updateSchema(variable, { max: parseOptionalNumber(e.target.value) })}
+                        className={inputClass}
+                      />
+                    </div>
+                    <div className="col-span-2">
+                      <span className="text-[10px] text-slate-400">Regex pattern</span>
+                      <input
+                        type="text"
+                        value={schema.pattern || ''}
+                        onChange={(e) => updateSchema(variable, { pattern: e.target.value || undefined })}
+                        placeholder="e.g. ^MSDS-\d{4}$"
+                        className={`${inputClass} font-mono`}
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VariableSchemaEditor;
@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from 'react';
+import { VariableCandidate } from '../types';
+import { Check, ExternalLink, Search, Sparkles, Table as TableIcon, X } from 'lucide-react';
+
+interface VariableValuePopoverProps {
+  variable: string;
+  anchor: DOMRect; // Clicked placeholder, in viewport coordinates
+  value: string;
+  headers: string[];
+  sampleRow?: Record<string, any>; // Row whose cells are used when a column is picked
+  candidates: VariableCandidate[]; // AI auto-map suggestions for this variable
+  onApply: (value: string) => void;
+  onOpenExportForm: (typedValue: string) => void; // Receives the input so unapplied text is not lost
+  onClose: () => void;
+}
+
+const POPOVER_WIDTH = 320;
+
+const formatCell = (value: unknown) => (value === undefined || value === null ? '' : String(value));
+
+/**
+ * Inline editor for one variable, opened from a placeholder in the rendered
+ * preview: type a value, take it from a data column, or accept an AI candidate.
+ */
+const VariableValuePopover: React.FC<VariableValuePopoverProps> = ({
+  variable,
+  anchor,
+  value,
+  headers,
+  sampleRow,
+  candidates,
+  onApply,
+  onOpenExportForm,
+  onClose
+}) => {
+  const [draft, setDraft] = useState(value);
+  const [columnSearch, setColumnSearch] = useState('');
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // Keep the popover inside the viewport
+  const left = Math.max(8, Math.min(anchor.left, window.innerWidth - POPOVER_WIDTH - 8));
+  const openAbove = anchor.bottom + 360 > window.innerHeight && anchor.top > 360;
+  const position: React.CSSProperties = openAbove
+    ? { left, bottom: window.innerHeight - anchor.top + 4, width: POPOVER_WIDTH }
+    : { left, top: anchor.bottom + 4, width: POPOVER_WIDTH };
+
+  const filteredHeaders = headers.filter(h => h.toLowerCase().includes(columnSearch.toLowerCase()));
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40" onClick={onClose} />
+      <div
+        style={position}
+        className="fixed z-50 bg-white dark:bg-slate-800 rounded-xl shadow-2xl border border-slate-200 dark:border-slate-700 flex flex-col max-h-[360px] text-sm"
+      >
+        <div className="px-3 py-2 border-b border-slate-100 dark:border-slate-700 flex items-center justify-between">
+          <code className="text-xs text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/30 px-1.5 py-0.5 rounded truncate">
+            {`{{${variable}}}`}
+          </code>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200" aria-label="Close">
+            <X size={16} />
+          </button>
+        </div>
+
+        <form
+          className="p-3 flex gap-2 border-b border-slate-100 dark:border-slate-700"
+          onSubmit={(e) => { e.preventDefault(); onApply(draft); }}
+        >
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder={`Value for ${variable}`}
+            className="flex-1 px-2 py-1.5 rounded border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-900 text-slate-900 dark:text-white placeholder:text-slate-400 focus:ring-1 focus:ring-blue-500 outline-none"
+            autoFocus
+          />
+          <button type="submit" className="px-2 py-1.5 rounded bg-blue-600 hover:bg-blue-700 text-white" title="Apply">
+            <Check size={16} />
+          </button>
+        </form>
+
+        <div className="flex-1 overflow-y-auto p-2 space-y-3">
+          {candidates.length > 0 && (
+            <div>
+              <div className="px-1 mb-1 flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider text-purple-500">
+                <Sparkles size={12} /> AI suggestions
+              </div>
+              {candidates.map((candidate, i) => (
+                <button
+                  key={i}
+                  onClick={() => onApply(candidate.value)}
+                  className="w-full text-left px-2 py-1.5 rounded-lg hover:bg-purple-50 dark:hover:bg-purple-900/20"
+                  title={candidate.evidence}
+                >
+                  <div className="font-medium text-slate-800 dark:text-slate-100 truncate">{candidate.value}</div>
+                  <div className="text-[10px] text-slate-400">Confidence: {Math.round((candidate.confidence || 0) * 100)}%</div>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {headers.length > 0 && (
+            <div>
+              <div className="px-1 mb-1 flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider text-slate-400">
+                <TableIcon size={12} /> Data columns
+              </div>
+              {headers.length > 6 && (
+                <div className="relative mb-1">
+                  <Search size={12} className="absolute left-2 top-1/2 -translate-y-1/2 text-slate-400" />
+                  <input
+                    type="text"
+                    value={columnSearch}
+                    onChange={(e) => setColumnSearch(e.target.value)}
+                    placeholder="Search columns..."
+                    className="w-full pl-6 pr-2 py-1 text-xs rounded border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900 text-slate-800 dark:text-slate-200 outline-none focus:ring-1 focus:ring-blue-500"
+                  />
+                </div>
+              )}
+              {filteredHeaders.map(header => {
+                const cell = formatCell(sampleRow?.[header]);
+                return (
+                  <button
+                    key={header}
+                    onClick={() => onApply(cell)}
+                    disabled={!cell}
+                    className="w-full text-left px-2 py-1.5 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 disabled:opacity-50 disabled:hover:bg-transparent"
+                  >
+                    <div className="text-slate-700 dark:text-slate-300 truncate">{header}</div>
+                    <div className="text-[10px] text-slate-400 truncate">{cell ? `Ex: ${cell}` : 'Empty in this row'}</div>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <button
+          onClick={() => onOpenExportForm(draft)}
+          className="px-3 py-2 border-t border-slate-100 dark:border-slate-700 flex items-center gap-1 text-xs text-slate-500 hover:text-blue-600 dark:hover:text-blue-400"
+        >
+          <ExternalLink size={12} /> Open in export form
+        </button>
+      </div>
+    </>
+  );
+};
+
+export default VariableValuePopover;
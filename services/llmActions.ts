@@ -0,0 +1,91 @@
+import type { AnalysisResult, DocumentMappingResult } from "../types";
+import type { MappingPromptParams } from "../utils/llmPrompts.js";
+import {
+  analyzePageImages,
+  analyzeRawText,
+  formatTextWithClient,
+  LLMClient,
+  mapDocumentVariables
+} from "./llmClient.js";
+
+/**
+ * Every action the browser can send to an api/ handler, with its request
+ * body and response. Handlers and validators are mapped over this registry,
+ * so adding an action without implementing it fails to compile.
+ */
+export interface LLMActionMap {
+  analyzePdfWithVision: {
+    request: { pageImages: string[]; maxPages?: number };
+    response: AnalysisResult;
+  };
+  analyzePdfStructure: {
+    request: { rawText: string };
+    response: AnalysisResult;
+  };
+  suggestVariableMappingsFromDocument: {
+    request: { params: MappingPromptParams };
+    response: DocumentMappingResult;
+  };
+  formatText: {
+    request: { text: string; context: string };
+    response: { formatted: string };
+  };
+  testConnection: {
+    request: Record<string, never>;
+    response: { ok: true };
+  };
+}
+
+export type LLMAction = keyof LLMActionMap;
+export type LLMActionRequest<A extends LLMAction> = LLMActionMap[A]['request'];
+export type LLMActionResponse<A extends LLMAction> = LLMActionMap[A]['response'];
+
+type LLMActionHandlers = {
+  [A in LLMAction]: (client: LLMClient, request: LLMActionRequest<A>) => Promise<LLMActionResponse<A>>;
+};
+
+// Returns an error message for a malformed request body, null when it is usable
+type LLMActionValidators = {
+  [A in LLMAction]: (body: any) => string | null;
+};
+
+const LLM_ACTION_HANDLERS: LLMActionHandlers = {
+  analyzePdfWithVision: (client, { pageImages }) => analyzePageImages(client, pageImages),
+  analyzePdfStructure: (client, { rawText }) => analyzeRawText(client, rawText),
+  suggestVariableMappingsFromDocument: (client, { params }) => mapDocumentVariables(client, params),
+  formatText: async (client, { text, context }) => ({
+    formatted: await formatTextWithClient(client, text, context)
+  }),
+  testConnection: async client => {
+    await client.generate({ prompt: 'ping', maxTokens: 1 });
+    return { ok: true };
+  }
+};
+
+const LLM_ACTION_VALIDATORS: LLMActionValidators = {
+  analyzePdfWithVision: body =>
+    Array.isArray(body?.pageImages)
+      ? null
+      : 'pageImages array is required. Client should render PDF pages and send as base64 images.',
+  analyzePdfStructure: body => (typeof body?.rawText === 'string' ? null : 'rawText is required'),
+  suggestVariableMappingsFromDocument: body =>
+    body?.params && typeof body.params === 'object' ? null : 'params is required',
+  formatText: body =>
+    typeof body?.text === 'string' && typeof body?.context === 'string' ? null : 'text and context are required',
+  testConnection: () => null
+};
+
+export const isLLMAction = (action: unknown): action is LLMAction =>
+  typeof action === 'string' && Object.prototype.hasOwnProperty.call(LLM_ACTION_HANDLERS, action);
+
+export const validateLLMActionRequest = (action: LLMAction, body: unknown): string | null =>
+  LLM_ACTION_VALIDATORS[action](body);
+
+export const executeLLMAction = <A extends LLMAction>(
+  client: LLMClient,
+  action: A,
+  request: LLMActionRequest<A>
+): Promise<LLMActionResponse<A>> => {
+  const handler = LLM_ACTION_HANDLERS[action] as (client: LLMClient, request: LLMActionRequest<A>) => Promise<LLMActionResponse<A>>;
+  return handler(client, request);
+};
@@ -0,0 +1,291 @@
+import { GoogleGenAI } from "@google/genai";
+import type { AnalysisResult, DocumentMappingResult, LLMProvider, OpenAIAuthHeader } from "../types";
+import {
+  ANALYZE_SYSTEM_INSTRUCTION,
+  buildAnalyzePrompt,
+  buildFormatPrompt,
+  buildMappingPrompt,
+  buildVisionAnalyzePrompt,
+  FORMAT_SYSTEM_INSTRUCTION,
+  MAPPING_SYSTEM_INSTRUCTION,
+  MappingPromptParams,
+  normalizeFormattedText,
+  safeParseJson,
+  toAnalysisResult,
+  VISION_SYSTEM_INSTRUCTION
+} from "../utils/llmPrompts.js";
+
+/**
+ * Provider-neutral LLM access. Each provider adapter turns one generic
+ * request (prompt, optional system instruction and page images) into its own
+ * wire format; the task functions below hold the prompts and post-processing
+ * and run unchanged in the browser and in the api/ serverless handlers.
+ */
+
+export interface LLMRequest {
+  prompt: string;
+  systemInstruction?: string;
+  images?: string[]; // PNG data URLs, sent after the prompt
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LLMClient {
+  provider: LLMProvider;
+  generate: (request: LLMRequest) => Promise<string>;
+}
+
+export interface OpenAICompatibleConfig {
+  endpoint: string;
+  model: string;
+  apiKey: string;
+  urlTemplate?: string; // {endpoint} and {model} are substituted, e.g. Azure deployment URLs
+  apiVersion?: string;
+  authHeader?: OpenAIAuthHeader;
+  headers?: Record<string, string>;
+  query?: Record<string, string>;
+}
+
+export interface AnthropicConfig {
+  endpoint: string;
+  model: string;
+  apiKey: string;
+}
+
+export const GEMINI_MODEL = 'gemini-2.5-flash';
+
+const parseImageDataUrl = (image: string) => {
+  const match = image.match(/^data:([^;,]+);base64,(.*)$/);
+  return match ? { mimeType: match[1], data: match[2] } : { mimeType: 'image/png', data: image };
+};
+
+const describeGeminiError = (error: any) => {
+  let message = error?.message || 'Gemini request failed.';
+  if (error?.status === 404) {
+    message += " (Model not found - ensure you're using a vision-capable model like gemini-2.5-flash)";
+  } else if (error?.status === 401 || error?.status === 403) {
+    message += " (Authentication failed - check your API key)";
+  } else if (error?.status === 429) {
+    message += " (Rate limit exceeded - please try again later)";
+  }
+  return message;
+};
+
+export const createGeminiClient = (apiKey: string, model: string = GEMINI_MODEL): LLMClient => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    provider: 'gemini',
+    generate: async ({ prompt, systemInstruction, images, temperature, maxTokens }) => {
+      const contents = images?.length
+        ? [{ text: prompt }, ...images.map(image => ({ inlineData: parseImageDataUrl(image) }))]
+        : prompt;
+
+      try {
+        const response = await ai.models.generateContent({
+          model,
+          contents,
+          config: { systemInstruction, temperature, maxOutputTokens: maxTokens }
+        });
+        return response.text || '';
+      } catch (error: any) {
+        console.error("Error calling Gemini:", error);
+        throw new Error(describeGeminiError(error));
+      }
+    }
+  };
+};
+
+export const buildChatCompletionsUrl = (baseUrl: string) => {
+  const trimmed = baseUrl.replace(/\/+$/, '');
+  if (/\/chat\/completions$/i.test(trimmed)) {
+    return trimmed;
+  }
+  if (trimmed.endsWith('/v1')) {
+    return `${trimmed}/chat/completions`;
+  }
+  return `${trimmed}/v1/chat/completions`;
+};
+
+export const buildOpenAICompatibleUrl = (config: OpenAICompatibleConfig) => {
+  const endpoint = config.endpoint.replace(/\/+$/, '');
+  const base = config.urlTemplate?.trim()
+    ? config.urlTemplate.trim()
+        .replace(/\{endpoint\}/g, endpoint)
+        .replace(/\{model\}/g, encodeURIComponent(config.model))
+    : buildChatCompletionsUrl(endpoint);
+
+  const params = new URLSearchParams();
+  if (config.apiVersion) params.set('api-version', config.apiVersion);
+  Object.entries(config.query || {}).forEach(([key, value]) => params.set(key, value));
+
+  const search = params.toString();
+  if (!search) return base;
+  return `${base}${base.includes('?') ? '&' : '?'}${search}`;
+};
+
+const buildOpenAICompatibleHeaders = (config: OpenAICompatibleConfig): Record<string, string> => {
+  const auth: Record<string, string> = !config.apiKey
+    ? {}
+    : config.authHeader === 'api-key'
+      ? { 'api-key': config.apiKey }
+      : { Authorization: `Bearer ${config.apiKey}` };
+
+  return {
+    'Content-Type': 'application/json',
+    ...auth,
+    ...(config.headers || {})
+  };
+};
+
+export const createOpenAICompatibleClient = (config: OpenAICompatibleConfig): LLMClient => ({
+  provider: 'openai-compatible',
+  generate: async ({ prompt, systemInstruction, images, temperature = 0.2, maxTokens }) => {
+    const content = images?.length
+      ? [
+          { type: 'text', text: prompt },
+          ...images.map(url => ({ type: 'image_url', image_url: { url } }))
+        ]
+      : prompt;
+
+    const response = await fetch(buildOpenAICompatibleUrl(config), {
+      method: 'POST',
+      headers: buildOpenAICompatibleHeaders(config),
+      body: JSON.stringify({
+        model: config.model,
+        messages: [
+          ...(systemInstruction ? [{ role: 'system', content: systemInstruction }] : []),
+          { role: 'user', content }
+        ],
+        temperature,
+        // Some vision endpoints default to a very small completion budget
+        max_tokens: maxTokens ?? (images?.length ? 4096 : undefined)
+      })
+    });
+
+    if (!response.ok) {
+      let message = `OpenAI 兼容服务请求失败 (${response.status})`;
+      try {
+        const data = await response.json();
+        if (data?.error?.message) message = data.error.message;
+      } catch {
+        // ignore
+      }
+      throw new Error(message);
+    }
+
+    const data = await response.json();
+    return data?.choices?.[0]?.message?.content || '';
+  }
+});
+
+export const buildMessagesUrl = (baseUrl: string) => {
+  const trimmed = baseUrl.replace(/\/+$/, '');
+  if (/\/messages$/i.test(trimmed)) {
+    return trimmed;
+  }
+  if (trimmed.endsWith('/v1')) {
+    return `${trimmed}/messages`;
+  }
+  return `${trimmed}/v1/messages`;
+};
+
+export const createAnthropicClient = (config: AnthropicConfig): LLMClient => ({
+  provider: 'anthropic',
+  generate: async ({ prompt, systemInstruction, images, temperature = 0.2, maxTokens }) => {
+    // Images go before the instructions that refer to them
+    const content = [
+      ...(images || []).map(image => {
+        const { mimeType, data } = parseImageDataUrl(image);
+        return { type: 'image', source: { type: 'base64', media_type: mimeType, data } };
+      }),
+      { type: 'text', text: prompt }
+    ];
+
+    const response = await fetch(buildMessagesUrl(config.endpoint), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': config.apiKey,
+        'anthropic-version': '2023-06-01',
+        // Required for direct calls from the browser; ignored server-side
+        'anthropic-dangerous-direct-browser-access': 'true'
+      },
+      body: JSON.stringify({
+        model: config.model,
+        ...(systemInstruction ? { system: systemInstruction } : {}),
+        messages: [{ role: 'user', content }],
+        temperature,
+        // max_tokens is mandatory for this API
+        max_tokens: maxTokens ?? 8192
+      })
+    });
+
+    if (!response.ok) {
+      let message = `Anthropic 服务请求失败 (${response.status})`;
+      try {
+        const data = await response.json();
+        if (data?.error?.message) message = data.error.message;
+      } catch {
+        // ignore
+      }
+      throw new Error(message);
+    }
+
+    const data = await response.json();
+    return (data?.content || [])
+      .filter((block: any) => block?.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+  }
+});
+
+/**
+ * Ollama and llama.cpp server both expose an OpenAI-compatible chat endpoint
+ * (images as data URLs included), so local models reuse that adapter without
+ * credentials.
+ */
+export const createLocalClient = (endpoint: string, model: string): LLMClient => ({
+  ...createOpenAICompatibleClient({ endpoint, model, apiKey: '' }),
+  provider: 'local'
+});
+
+/**
+ * Extract a Markdown template from rendered PDF pages (primary method).
+ */
+export const analyzePageImages = async (client: LLMClient, pageImages: string[]): Promise<AnalysisResult> => {
+  const content = await client.generate({
+    prompt: buildVisionAnalyzePrompt(),
+    systemInstruction: VISION_SYSTEM_INSTRUCTION,
+    images: pageImages,
+    temperature: 0.1
+  });
+  return toAnalysisResult(content);
+};
+
+/**
+ * Extract a Markdown template from raw PDF text (legacy method).
+ */
+export const analyzeRawText = async (client: LLMClient, rawText: string): Promise<AnalysisResult> => {
+  const content = await client.generate({
+    prompt: buildAnalyzePrompt(rawText),
+    systemInstruction: ANALYZE_SYSTEM_INSTRUCTION
+  });
+  return toAnalysisResult(content);
+};
+
+export const mapDocumentVariables = async (client: LLMClient, params: MappingPromptParams): Promise<DocumentMappingResult> => {
+  const content = await client.generate({
+    prompt: buildMappingPrompt(params),
+    systemInstruction: MAPPING_SYSTEM_INSTRUCTION
+  });
+  return safeParseJson(content) as DocumentMappingResult;
+};
+
+export const formatTextWithClient = async (client: LLMClient, text: string, context: string): Promise<string> => {
+  const content = await client.generate({
+    prompt: buildFormatPrompt(text, context),
+    systemInstruction: FORMAT_SYSTEM_INSTRUCTION
+  });
+  return normalizeFormattedText(content || text);
+};
@@ -2,8 +2,13 @@ import { LLMSettings } from '../types';
 
 const CONFIG_KEY = 'smartdoc_llm_config_v1';
 const API_KEY_KEY = 'smartdoc_llm_api_key_v1';
+const ANTHROPIC_API_KEY_KEY = 'smartdoc_llm_anthropic_api_key_v1';
+// Extra headers often carry proxy tokens, so they get the same handling as the API keys
+const EXTRA_HEADERS_KEY = 'smartdoc_llm_extra_headers_v1';
 
 let inMemoryApiKey = '';
+let inMemoryAnthropicApiKey = '';
+let inMemoryExtraHeaders: Record<string, string> = {};
 
 const defaultSettings: LLMSettings = {
   provider: 'gemini',
@@ -11,7 +16,37 @@ const defaultSettings: LLMSettings = {
   model: 'gpt-4o-mini',
   apiKey: '',
   rememberSession: false,
-  multimodalConfirmed: false
+  multimodalConfirmed: false,
+  urlTemplate: '',
+  apiVersion: '',
+  authHeader: 'bearer',
+  extraHeaders: {},
+  extraQuery: {},
+  anthropicEndpoint: 'https://api.anthropic.com',
+  anthropicModel: 'claude-sonnet-4-5',
+  anthropicApiKey: '',
+  localServer: 'ollama',
+  localEndpoint: 'http://localhost:11434',
+  localModel: '',
+  localModelVision: false
+};
+
+export type OpenAICompatiblePreset = Pick<LLMSettings, 'endpoint' | 'urlTemplate' | 'apiVersion' | 'authHeader'>;
+
+export const OPENAI_COMPATIBLE_PRESETS: Record<'openai' | 'azure', OpenAICompatiblePreset> = {
+  openai: {
+    endpoint: 'https://api.openai.com',
+    urlTemplate: '',
+    apiVersion: '',
+    authHeader: 'bearer'
+  },
+  // Model name is the deployment name; endpoint is https://<resource>.openai.azure.com
+  azure: {
+    endpoint: '',
+    urlTemplate: '{endpoint}/openai/deployments/{model}/chat/completions',
+    apiVersion: '2024-10-21',
+    authHeader: 'api-key'
+  }
 };
 
 const readSessionJson = (key: string) => {
@@ -28,17 +63,23 @@ export const getLLMSettings = (): LLMSettings => {
   const stored = readSessionJson(CONFIG_KEY) || {};
   const rememberSession = Boolean(stored.rememberSession);
   const apiKey = rememberSession ? (sessionStorage.getItem(API_KEY_KEY) || '') : inMemoryApiKey;
+  const anthropicApiKey = rememberSession ? (sessionStorage.getItem(ANTHROPIC_API_KEY_KEY) || '') : inMemoryAnthropicApiKey;
+  const extraHeaders = rememberSession ? readSessionJson(EXTRA_HEADERS_KEY) : inMemoryExtraHeaders;
 
   return {
     ...defaultSettings,
     ...stored,
-    apiKey: apiKey || ''
+    apiKey: apiKey || '',
+    anthropicApiKey: anthropicApiKey || '',
+    extraHeaders: extraHeaders || {}
   };
 };
 
 export const saveLLMSettings = (settings: LLMSettings) => {
   inMemoryApiKey = settings.apiKey || '';
-  const { apiKey, ...rest } = settings;
+  inMemoryAnthropicApiKey = settings.anthropicApiKey || '';
+  inMemoryExtraHeaders = settings.extraHeaders || {};
+  const { apiKey, anthropicApiKey, extraHeaders, ...rest } = settings;
 
   try {
     sessionStorage.setItem(CONFIG_KEY, JSON.stringify(rest));
@@ -47,6 +88,16 @@ export const saveLLMSettings = (settings: LLMSettings) => {
     } else {
       sessionStorage.removeItem(API_KEY_KEY);
     }
+    if (settings.rememberSession && anthropicApiKey) {
+      sessionStorage.setItem(ANTHROPIC_API_KEY_KEY, anthropicApiKey);
+    } else {
+      sessionStorage.removeItem(ANTHROPIC_API_KEY_KEY);
+    }
+    if (settings.rememberSession && Object.keys(extraHeaders || {}).length > 0) {
+      sessionStorage.setItem(EXTRA_HEADERS_KEY, JSON.stringify(extraHeaders));
+    } else {
+      sessionStorage.removeItem(EXTRA_HEADERS_KEY);
+    }
   } catch {
     // ignore storage errors
   }
@@ -54,8 +105,12 @@ export const saveLLMSettings = (settings: LLMSettings) => {
 
 export const clearLLMSettings = () => {
   inMemoryApiKey = '';
+  inMemoryAnthropicApiKey = '';
+  inMemoryExtraHeaders = {};
   try {
     sessionStorage.removeItem(API_KEY_KEY);
+    sessionStorage.removeItem(ANTHROPIC_API_KEY_KEY);
+    sessionStorage.removeItem(EXTRA_HEADERS_KEY);
     sessionStorage.removeItem(CONFIG_KEY);
   } catch {
     // ignore storage errors
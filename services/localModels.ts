@@ -0,0 +1,73 @@
+import { LocalModelInfo, LocalServerKind } from '../types';
+
+/**
+ * Model discovery for self-hosted servers. Runs in the browser only: the
+ * server is expected on the user's machine or network, which serverless
+ * functions cannot reach.
+ */
+
+export const DEFAULT_LOCAL_ENDPOINTS: Record<LocalServerKind, string> = {
+  ollama: 'http://localhost:11434',
+  'llama-cpp': 'http://localhost:8080'
+};
+
+const fetchJson = async (url: string, init?: RequestInit) => {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`本地模型服务请求失败 (${response.status})`);
+  }
+  return response.json();
+};
+
+const isOllamaVisionModel = (show: any) => {
+  // Recent Ollama versions list capabilities; older ones only expose the model families
+  if (Array.isArray(show?.capabilities)) return show.capabilities.includes('vision');
+  const families: string[] = show?.details?.families || [];
+  return families.some(family => family === 'clip' || family === 'mllama') || Boolean(show?.projector_info);
+};
+
+const discoverOllamaModels = async (endpoint: string): Promise<LocalModelInfo[]> => {
+  const tags = await fetchJson(`${endpoint}/api/tags`);
+  const names: string[] = (tags?.models || []).map((model: any) => model.name || model.model).filter(Boolean);
+
+  return Promise.all(names.map(async name => {
+    try {
+      const show = await fetchJson(`${endpoint}/api/show`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model: name })
+      });
+      return { name, vision: isOllamaVisionModel(show) };
+    } catch {
+      return { name, vision: false };
+    }
+  }));
+};
+
+const discoverLlamaCppModels = async (endpoint: string): Promise<LocalModelInfo[]> => {
+  const [models, props] = await Promise.all([
+    fetchJson(`${endpoint}/v1/models`),
+    fetchJson(`${endpoint}/props`).catch(() => null)
+  ]);
+
+  // The server hosts a single model; it accepts images only when started with a multimodal projector
+  const vision = Boolean(props?.modalities?.vision ?? props?.multimodal);
+  return (models?.data || []).map((model: any) => ({ name: model.id, vision }));
+};
+
+export const discoverLocalModels = async (server: LocalServerKind, endpoint: string): Promise<LocalModelInfo[]> => {
+  const base = endpoint.trim().replace(/\/+$/, '');
+  if (!base) {
+    throw new Error('请填写本地模型服务地址。');
+  }
+
+  try {
+    return server === 'ollama' ? await discoverOllamaModels(base) : await discoverLlamaCppModels(base);
+  } catch (error: any) {
+    if (error instanceof TypeError) {
+      // fetch rejects with a TypeError when the server is down or blocks the page origin
+      throw new Error('无法连接本地模型服务，请确认服务已启动并允许跨域访问（Ollama 需设置 OLLAMA_ORIGINS）。');
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,35 @@
+import { renderMarkdownToPdf, PdfRenderOptions } from '../utils/pdfRenderer';
+import { loadPdfFonts } from '../utils/pdfFonts';
+
+const useServerless = import.meta.env.PROD || import.meta.env.VITE_USE_SERVERLESS === 'true';
+
+/**
+ * Render filled report Markdown to a downloadable PDF.
+ * Production goes through /api/render-pdf; local development renders in the
+ * browser with the same pdf-lib pipeline, so page numbers match either way.
+ */
+export const renderReportPdf = async (markdown: string, options: PdfRenderOptions = {}): Promise<Blob> => {
+  if (!useServerless) {
+    const bytes = await renderMarkdownToPdf(markdown, await loadPdfFonts(), options);
+    return new Blob([bytes], { type: 'application/pdf' });
+  }
+
+  const response = await fetch('/api/render-pdf', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ markdown, ...options })
+  });
+
+  if (!response.ok) {
+    let message = `PDF 渲染失败 (${response.status})`;
+    try {
+      const data = await response.json();
+      if (data?.error) message = data.error;
+    } catch {
+      // ignore
+    }
+    throw new Error(message);
+  }
+
+  return response.blob();
+};
@@ -0,0 +1,330 @@
+import { ColumnMappingProfile, ColumnSynonymGroup, DataValidationRule, ExcelData, ReportDraft, Template, TemplateVersion } from '../types';
+
+/**
+ * IndexedDB persistence for templates, template versions, filled-report drafts,
+ * uploaded datasets and table column-mapping profiles. Replaces the old
+ * localStorage keys, which hit the quota with large templates.
+ */
+
+const DB_NAME = 'smartdoc';
+const DB_VERSION = 2;
+
+const STORES = {
+  templates: 'templates',
+  versions: 'versions',
+  drafts: 'drafts',
+  datasets: 'datasets',
+  mappingProfiles: 'mappingProfiles',
+  meta: 'meta'
+} as const;
+
+type StoreName = typeof STORES[keyof typeof STORES];
+
+// Legacy localStorage keys migrated on first open
+const LEGACY_TEMPLATES_KEY = 'smartdoc_templates';
+const LEGACY_VALUES_PREFIX = 'smartdoc_variable_values_';
+const MIGRATION_FLAG = 'localStorageMigrated';
+
+const CURRENT_DATASET_ID = 'current';
+const COLUMN_SYNONYMS_KEY = 'columnSynonyms';
+const DATA_RULES_KEY = 'dataValidationRules';
+
+interface StoredVersion extends TemplateVersion {
+  templateId: string;
+}
+
+interface StoredDataset {
+  id: string;
+  data: ExcelData;
+  updatedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('IndexedDB transaction aborted'));
+  });
+
+const upgradeDatabase = (db: IDBDatabase) => {
+  if (!db.objectStoreNames.contains(STORES.templates)) {
+    db.createObjectStore(STORES.templates, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(STORES.versions)) {
+    const versions = db.createObjectStore(STORES.versions, { keyPath: 'id' });
+    versions.createIndex('templateId', 'templateId', { unique: false });
+  }
+  if (!db.objectStoreNames.contains(STORES.drafts)) {
+    db.createObjectStore(STORES.drafts, { keyPath: 'templateId' });
+  }
+  if (!db.objectStoreNames.contains(STORES.datasets)) {
+    db.createObjectStore(STORES.datasets, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(STORES.meta)) {
+    db.createObjectStore(STORES.meta, { keyPath: 'key' });
+  }
+  // Added in version 2
+  if (!db.objectStoreNames.contains(STORES.mappingProfiles)) {
+    db.createObjectStore(STORES.mappingProfiles, { keyPath: 'id' });
+  }
+};
+
+const splitTemplate = (template: Template) => {
+  const { versions = [], ...rest } = template;
+  const storedVersions: StoredVersion[] = versions.map(version => ({ ...version, templateId: template.id }));
+  return { template: rest as Template, versions: storedVersions };
+};
+
+const writeTemplate = (tx: IDBTransaction, template: Template) => {
+  const { template: record, versions } = splitTemplate(template);
+  tx.objectStore(STORES.templates).put(record);
+
+  // Replace the stored history so trimmed versions are dropped as well
+  const versionStore = tx.objectStore(STORES.versions);
+  const keysRequest = versionStore.index('templateId').getAllKeys(template.id);
+  keysRequest.onsuccess = () => {
+    const keep = new Set(versions.map(v => v.id));
+    keysRequest.result.forEach(key => {
+      if (!keep.has(String(key))) versionStore.delete(key);
+    });
+    versions.forEach(version => versionStore.put(version));
+  };
+};
+
+// Returns undefined for entries that are not valid JSON so one corrupt key does not block the rest
+const readLegacyJson = (key: string): unknown => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || 'null');
+  } catch (e) {
+    console.warn(`Skipping unreadable legacy localStorage entry "${key}"`, e);
+    return undefined;
+  }
+};
+
+const migrateLegacyStorage = async (db: IDBDatabase) => {
+  const flagTx = db.transaction(STORES.meta, 'readonly');
+  const flag = await requestToPromise(flagTx.objectStore(STORES.meta).get(MIGRATION_FLAG));
+  if (flag) return;
+
+  let legacyTemplates: Template[] = [];
+  const legacyDrafts: ReportDraft[] = [];
+  const legacyKeys: string[] = [];
+  let draftKeys: string[];
+
+  try {
+    draftKeys = Array.from({ length: localStorage.length }, (_, i) => localStorage.key(i))
+      .filter((key): key is string => Boolean(key && key.startsWith(LEGACY_VALUES_PREFIX)));
+  } catch (e) {
+    // Leave the flag unset so the migration runs again once storage is accessible
+    console.warn('Failed to read legacy localStorage data, skipping migration', e);
+    return;
+  }
+
+  const storedTemplates = readLegacyJson(LEGACY_TEMPLATES_KEY);
+  if (Array.isArray(storedTemplates)) {
+    legacyTemplates = storedTemplates.filter(template => template && typeof template.id === 'string');
+    legacyKeys.push(LEGACY_TEMPLATES_KEY);
+  } else if (storedTemplates !== undefined && storedTemplates !== null) {
+    console.warn(`Skipping legacy localStorage entry "${LEGACY_TEMPLATES_KEY}": expected a template list`);
+  }
+
+  draftKeys.forEach(key => {
+    const values = readLegacyJson(key);
+    if (!values || typeof values !== 'object' || Array.isArray(values)) return;
+    legacyDrafts.push({
+      templateId: key.slice(LEGACY_VALUES_PREFIX.length),
+      values: values as Record<string, string>,
+      updatedAt: Date.now()
+    });
+    legacyKeys.push(key);
+  });
+
+  const tx = db.transaction([STORES.templates, STORES.versions, STORES.drafts, STORES.meta], 'readwrite');
+  legacyTemplates.forEach(template => writeTemplate(tx, template));
+  legacyDrafts.forEach(draft => tx.objectStore(STORES.drafts).put(draft));
+  tx.objectStore(STORES.meta).put({ key: MIGRATION_FLAG, value: Date.now() });
+  await transactionDone(tx);
+
+  // Only free the old keys once the data is safely in IndexedDB
+  legacyKeys.forEach(key => localStorage.removeItem(key));
+  if (legacyTemplates.length > 0 || legacyDrafts.length > 0) {
+    console.log(`📦 Migrated ${legacyTemplates.length} templates and ${legacyDrafts.length} drafts from localStorage`);
+  }
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => upgradeDatabase(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another open tab.'));
+    }).then(async db => {
+      await migrateLegacyStorage(db);
+      return db;
+    });
+    // Allow a retry after a failed open
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  const result = requestToPromise(run(tx.objectStore(storeName)));
+  await transactionDone(tx);
+  return result;
+};
+
+export const templateRepository = {
+  /** All templates, newest first, with their version history attached. */
+  async list(): Promise<Template[]> {
+    const db = await openDatabase();
+    const tx = db.transaction([STORES.templates, STORES.versions], 'readonly');
+    const [templates, versions] = await Promise.all([
+      requestToPromise(tx.objectStore(STORES.templates).getAll() as IDBRequest<Template[]>),
+      requestToPromise(tx.objectStore(STORES.versions).getAll() as IDBRequest<StoredVersion[]>)
+    ]);
+
+    const byTemplate = new Map<string, TemplateVersion[]>();
+    versions.forEach(({ templateId, ...version }) => {
+      const list = byTemplate.get(templateId) ?? [];
+      list.push(version);
+      byTemplate.set(templateId, list);
+    });
+
+    return templates
+      .map(template => {
+        const history = (byTemplate.get(template.id) ?? []).sort((a, b) => a.createdAt - b.createdAt);
+        return history.length > 0 ? { ...template, versions: history } : template;
+      })
+      .sort((a, b) => b.createdAt - a.createdAt);
+  },
+
+  async save(template: Template): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction([STORES.templates, STORES.versions], 'readwrite');
+    writeTemplate(tx, template);
+    await transactionDone(tx);
+  },
+
+  async remove(id: string): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction([STORES.templates, STORES.versions, STORES.drafts], 'readwrite');
+    tx.objectStore(STORES.templates).delete(id);
+    tx.objectStore(STORES.drafts).delete(id);
+    const versionStore = tx.objectStore(STORES.versions);
+    const keysRequest = versionStore.index('templateId').getAllKeys(id);
+    keysRequest.onsuccess = () => keysRequest.result.forEach(key => versionStore.delete(key));
+    await transactionDone(tx);
+  }
+};
+
+export const versionRepository = {
+  async listByTemplate(templateId: string): Promise<TemplateVersion[]> {
+    const versions = await withStore(STORES.versions, 'readonly', store =>
+      store.index('templateId').getAll(templateId) as IDBRequest<StoredVersion[]>
+    );
+    return versions
+      .map(({ templateId: _templateId, ...version }) => version)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+};
+
+export const draftRepository = {
+  async get(templateId: string): Promise<ReportDraft | undefined> {
+    return withStore(STORES.drafts, 'readonly', store => store.get(templateId) as IDBRequest<ReportDraft | undefined>);
+  },
+
+  async save(templateId: string, values: Record<string, string>): Promise<void> {
+    const draft: ReportDraft = { templateId, values, updatedAt: Date.now() };
+    await withStore(STORES.drafts, 'readwrite', store => store.put(draft));
+  },
+
+  async remove(templateId: string): Promise<void> {
+    await withStore(STORES.drafts, 'readwrite', store => store.delete(templateId));
+  }
+};
+
+export const datasetRepository = {
+  /** The most recently uploaded dataset, kept so a reload does not lose it. */
+  async getCurrent(): Promise<ExcelData | undefined> {
+    const record = await withStore(STORES.datasets, 'readonly', store =>
+      store.get(CURRENT_DATASET_ID) as IDBRequest<StoredDataset | undefined>
+    );
+    return record?.data;
+  },
+
+  async saveCurrent(data: ExcelData): Promise<void> {
+    const record: StoredDataset = { id: CURRENT_DATASET_ID, data, updatedAt: Date.now() };
+    await withStore(STORES.datasets, 'readwrite', store => store.put(record));
+  },
+
+  async clearCurrent(): Promise<void> {
+    await withStore(STORES.datasets, 'readwrite', store => store.delete(CURRENT_DATASET_ID));
+  }
+};
+
+export const mappingProfileRepository = {
+  /** Saved column mappings, most recently updated first. */
+  async list(): Promise<ColumnMappingProfile[]> {
+    const profiles = await withStore(STORES.mappingProfiles, 'readonly', store =>
+      store.getAll() as IDBRequest<ColumnMappingProfile[]>
+    );
+    return profiles.sort((a, b) => b.updatedAt - a.updatedAt);
+  },
+
+  async save(profile: ColumnMappingProfile): Promise<void> {
+    await withStore(STORES.mappingProfiles, 'readwrite', store => store.put(profile));
+  },
+
+  async remove(id: string): Promise<void> {
+    await withStore(STORES.mappingProfiles, 'readwrite', store => store.delete(id));
+  }
+};
+
+export const synonymRepository = {
+  /** The user's synonym dictionary, or undefined while the defaults are in use. */
+  async get(): Promise<ColumnSynonymGroup[] | undefined> {
+    const record = await withStore(STORES.meta, 'readonly', store =>
+      store.get(COLUMN_SYNONYMS_KEY) as IDBRequest<{ key: string; value: ColumnSynonymGroup[] } | undefined>
+    );
+    return record?.value;
+  },
+
+  async save(groups: ColumnSynonymGroup[]): Promise<void> {
+    await withStore(STORES.meta, 'readwrite', store => store.put({ key: COLUMN_SYNONYMS_KEY, value: groups }));
+  }
+};
+
+export const dataRuleRepository = {
+  /** The user's data grid validation rules, or undefined while the defaults are in use. */
+  async get(): Promise<DataValidationRule[] | undefined> {
+    const record = await withStore(STORES.meta, 'readonly', store =>
+      store.get(DATA_RULES_KEY) as IDBRequest<{ key: string; value: DataValidationRule[] } | undefined>
+    );
+    return record?.value;
+  },
+
+  async save(rules: DataValidationRule[]): Promise<void> {
+    await withStore(STORES.meta, 'readwrite', store => store.put({ key: DATA_RULES_KEY, value: rules }));
+  }
+};
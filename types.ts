@@ -1,3 +1,32 @@
+export type VariableType = 'string' | 'number' | 'date' | 'email' | 'phone' | 'percentage' | 'enum';
+
+export interface VariableSchema {
+  type: VariableType;
+  required?: boolean;
+  pattern?: string; // Regex the value must match
+  min?: number; // Numeric minimum (number/percentage) or minimum length (text types)
+  max?: number; // Numeric maximum (number/percentage) or maximum length (text types)
+  format?: string; // Date format, e.g. YYYY-MM-DD
+  options?: string[]; // Allowed values for enum
+}
+
+export interface ComputedVariable {
+  name: string;
+  expression: string; // e.g. SUM(Ingredients.Weight), ADD_MONTHS(ManufactureDate, 36)
+}
+
+export interface TemplateVersion {
+  id: string;
+  createdAt: number;
+  note?: string; // Author note entered when saving
+  name: string;
+  content: string;
+  variables: string[];
+  defaultValues?: Record<string, string>;
+  variableSchemas?: Record<string, VariableSchema>;
+  computedVariables?: ComputedVariable[];
+}
+
 export interface Template {
   id: string;
   name: string;
@@ -5,17 +34,87 @@ export interface Template {
   content: string; // The markdown/text content with {{variables}}
   variables: string[]; // List of detected variables
   defaultValues?: Record<string, string>; // Prefill values extracted from the source report
+  variableSchemas?: Record<string, VariableSchema>; // Per-variable type and validation rules
+  computedVariables?: ComputedVariable[]; // Derived values, evaluated before substitution
+  versions?: TemplateVersion[]; // Saved snapshots, oldest first
   createdAt: number;
 }
 
-export interface ExcelData {
-  fileName: string;
+export interface ReportDraft {
+  templateId: string;
+  values: Record<string, string>; // Variable values entered in the export form
+  updatedAt: number;
+}
+
+export interface ColumnMappingProfile {
+  id: string;
+  name: string;
+  templateId?: string; // Only offered for this template; shared by all templates when unset
+  sourceHeaders: string[]; // Excel headers of the spreadsheet layout the profile was saved from
+  mapping: Record<string, string>; // Template table header -> Excel header
+  updatedAt: number;
+}
+
+export interface ColumnSynonymGroup {
+  name: string;
+  terms: string[]; // Matched case-insensitively anywhere in a column header
+}
+
+export type DataRuleType = 'required' | 'cas' | 'range' | 'percentage-sum';
+
+export interface DataValidationRule {
+  id: string;
+  column: string; // Matched case-insensitively anywhere in a column header
+  type: DataRuleType;
+  min?: number; // Lower bound for range rules
+  max?: number; // Upper bound for range rules
+  blocking: boolean; // Blocking issues stop table inserts and export; others only warn
+}
+
+export type ColumnDataType = 'text' | 'number' | 'percentage' | 'date' | 'empty';
+
+export interface ExcelSheet {
+  name: string;
   headers: string[];
   rows: Record<string, any>[];
   keyValues?: Record<string, string>;
+  headerRows?: string[][]; // Header row plus the rows above it, merged cells filled in
+  columnFormats?: Record<string, 'date' | 'percentage'>; // Excel number formats of the data cells
+  columnTypes?: Record<string, ColumnDataType>; // Inferred by the cleaning pass
+}
+
+export interface DataCleaningChange {
+  sheet: string;
+  column: string;
+  kind: 'header' | 'trim' | 'date' | 'percentage';
+  count: number; // Cells changed (1 for a header)
+  before: string; // Example of the first change
+  after: string;
+}
+
+export interface DataCleaningResult {
+  changes: DataCleaningChange[];
+  originalSheets: ExcelSheet[]; // Sheets as parsed, kept until the changes are accepted or reverted
+}
+
+export interface DataSourceInfo {
+  format: 'excel' | 'csv' | 'tsv' | 'json';
+  encoding?: string; // Detected text encoding, e.g. UTF-8 or GBK
+  delimiter?: string;
+}
+
+export interface ExcelData {
+  fileName: string;
+  headers: string[]; // Headers and rows of the active sheet
+  rows: Record<string, any>[];
+  keyValues?: Record<string, string>; // Key/value pairs found on any sheet
+  sheets?: ExcelSheet[]; // Every sheet of the workbook
+  activeSheet?: string;
+  source?: DataSourceInfo; // File format the data was loaded from
+  cleaning?: DataCleaningResult; // Pending normalization changes
 }
 
-export type ViewState = 'upload-data' | 'select-template' | 'workspace';
+export type ViewState = 'upload-data' | 'select-template' | 'workspace' | 'mail-merge';
 
 export interface AnalysisResult {
   content: string;
@@ -39,7 +138,16 @@ export interface DocumentMappingResult {
   notes?: string[];
 }
 
-export type LLMProvider = 'gemini' | 'openai-compatible';
+export type LLMProvider = 'gemini' | 'openai-compatible' | 'anthropic' | 'local';
+
+export type OpenAIAuthHeader = 'bearer' | 'api-key';
+
+export type LocalServerKind = 'ollama' | 'llama-cpp';
+
+export interface LocalModelInfo {
+  name: string;
+  vision: boolean; // Accepts page images for analyzePdfWithVision
+}
 
 export interface LLMSettings {
   provider: LLMProvider;
@@ -48,4 +156,16 @@ export interface LLMSettings {
   apiKey: string;
   rememberSession: boolean;
   multimodalConfirmed: boolean;
+  urlTemplate: string; // Overrides the derived chat completions URL; {endpoint} and {model} are substituted
+  apiVersion: string; // Sent as the api-version query parameter (Azure OpenAI)
+  authHeader: OpenAIAuthHeader;
+  extraHeaders: Record<string, string>;
+  extraQuery: Record<string, string>;
+  anthropicEndpoint: string;
+  anthropicModel: string;
+  anthropicApiKey: string; // Separate from apiKey so an OpenAI key is never sent to Anthropic and vice versa
+  localServer: LocalServerKind;
+  localEndpoint: string;
+  localModel: string;
+  localModelVision: boolean; // From discovery; text-only models analyze the extracted PDF text instead
 }
\ No newline at end of file
@@ -0,0 +1,174 @@
+import JSZip from 'jszip';
+import { Template, ExcelData } from '../types';
+import { AUTO_VARIABLES, prepareReportMarkdown, fillTemplateVariables, resolvePageVariables, buildReportHtmlDocument, renderFilledPreviewHtml } from './reportRenderer';
+import { renderMarkdownToPdf } from './pdfRenderer';
+import { loadPdfFonts } from './pdfFonts';
+import { renderMarkdownToDocx } from './docxRenderer';
+import { bindCollections, getTemplateStructure, TemplateRow } from './templateEngine';
+import { evaluateComputedVariables, getComputedInputVariables } from './expressionEvaluator';
+import { bindWorkbookCollections, resolveSheetReference } from './workbook';
+
+export type BatchOutputFormat = 'markdown' | 'html' | 'pdf' | 'docx';
+
+// {{RowNumber}} is always available in file name patterns (1-based)
+export const ROW_NUMBER_TOKEN = 'RowNumber';
+export const DEFAULT_FILE_NAME_PATTERN = `Report_{{${ROW_NUMBER_TOKEN}}}`;
+
+const FORMAT_EXTENSIONS: Record<BatchOutputFormat, string> = {
+  markdown: 'md',
+  html: 'html',
+  pdf: 'pdf',
+  docx: 'docx'
+};
+
+export interface BatchGenerationOptions {
+  template: Template;
+  data: ExcelData;
+  columnMapping: Record<string, string>; // Variable -> Excel header
+  fileNamePattern: string;
+  formats: BatchOutputFormat[];
+  rowIndices?: number[]; // Rows to render; every row when omitted
+  onProgress?: (completed: number, total: number) => void;
+}
+
+const getComputedNames = (template: Template) => (template.computedVariables || []).map(c => c.name);
+
+/**
+ * Variables that need a value per row: placeholders plus inputs of computed
+ * variables, minus page variables and the computed variables themselves.
+ */
+export const getTemplateUserVariables = (template: Template) => {
+  const computedNames = getComputedNames(template);
+  const collections = getTemplateStructure(template.content).collections.map(c => c.name);
+  const inputs = getComputedInputVariables(template.computedVariables, collections);
+  return Array.from(new Set([...template.variables, ...inputs]))
+    .filter(v => !AUTO_VARIABLES.includes(v) && !computedNames.includes(v));
+};
+
+/**
+ * Resolve the value of every template variable for one data row.
+ * Unmapped `Sheet.Column` variables read the other sheets of `data`;
+ * any other unmapped variable resolves to an empty string.
+ */
+export const getRowValues = (row: Record<string, any>, variables: string[], columnMapping: Record<string, string>, data?: ExcelData) => {
+  const values: Record<string, string> = {};
+  variables.forEach(v => {
+    const column = columnMapping[v];
+    const raw = column ? row[column] : data ? resolveSheetReference(data, v) : undefined;
+    values[v] = raw === undefined || raw === null ? '' : String(raw).trim();
+  });
+  return values;
+};
+
+export const buildFileName = (pattern: string, values: Record<string, string>, rowIndex: number) => {
+  const resolved = pattern.replace(/\{\{([^}]+)\}\}/g, (_, name: string) => {
+    const key = name.trim();
+    if (key === ROW_NUMBER_TOKEN) return String(rowIndex + 1);
+    return values[key] || '';
+  });
+
+  const safe = resolved
+    .replace(/[\\/:*?"<>|\x00-\x1f]/g, '_')
+    .replace(/\s+/g, '_')
+    .replace(/_+/g, '_')
+    .replace(/^[_.]+|[_.]+$/g, '');
+
+  return safe || `Report_${rowIndex + 1}`;
+};
+
+// Loops iterate the current row, except loops named after another sheet
+const bindRowCollections = (content: string, row: TemplateRow, data?: ExcelData) =>
+  data ? bindWorkbookCollections(content, data, [row]) : bindCollections(content, [row]);
+
+/**
+ * Add the computed variables for one row to its values.
+ */
+export const withComputedValues = (template: Template, values: Record<string, string>, row?: TemplateRow, data?: ExcelData) => {
+  const collections = row ? bindRowCollections(template.content, row, data) : {};
+  return { ...values, ...evaluateComputedVariables(template.computedVariables, values, collections).values };
+};
+
+/**
+ * Fill one row into the template. Page variables are kept so the PDF renderer
+ * can resolve them against real pagination. Loops iterate over the row itself.
+ */
+export const renderRowMarkdown = (template: Template, values: Record<string, string>, row?: TemplateRow, data?: ExcelData) => {
+  const content = prepareReportMarkdown(template.content);
+  const collections = row ? bindRowCollections(content, row, data) : {};
+  const variables = [...getTemplateUserVariables(template), ...getComputedNames(template)];
+  return fillTemplateVariables(content, variables, values, collections);
+};
+
+/**
+ * Preview HTML of one row's report with each variable highlighted by status
+ * (see renderFilledPreviewHtml). Page variables show their single-page values.
+ */
+export const renderRowPreviewHtml = (template: Template, values: Record<string, string>, row?: TemplateRow, data?: ExcelData) => {
+  const content = resolvePageVariables(template.content);
+  const collections = row ? bindRowCollections(content, row, data) : {};
+  const variables = [...getTemplateUserVariables(template), ...getComputedNames(template)];
+  return renderFilledPreviewHtml(content, variables, values, collections);
+};
+
+/**
+ * Variables mapped to a column that is empty in the given row.
+ */
+export const getMissingMappedVariables = (row: Record<string, any>, variables: string[], columnMapping: Record<string, string>) =>
+  variables.filter(v => {
+    const column = columnMapping[v];
+    if (!column) return false;
+    const raw = row[column];
+    return raw === undefined || raw === null || String(raw).trim() === '';
+  });
+
+/**
+ * Render one report per data row and bundle them into a ZIP archive.
+ */
+export const generateBatchReports = async (options: BatchGenerationOptions): Promise<Blob> => {
+  const { template, data, columnMapping, fileNamePattern, formats, rowIndices, onProgress } = options;
+  if (formats.length === 0) {
+    throw new Error('Select at least one output format.');
+  }
+
+  const zip = new JSZip();
+  const variables = getTemplateUserVariables(template);
+  const usedNames = new Set<string>();
+  const indices = rowIndices ?? data.rows.map((_, i) => i);
+  const total = indices.length;
+  const pdfFonts = formats.includes('pdf') ? await loadPdfFonts() : null;
+
+  for (let n = 0; n < total; n++) {
+    // {{RowNumber}} keeps the row's position in the data even for a subset
+    const i = indices[n];
+    const values = withComputedValues(template, getRowValues(data.rows[i], variables, columnMapping, data), data.rows[i], data);
+    const markdown = renderRowMarkdown(template, values, data.rows[i], data);
+
+    // Keep file names unique when the pattern resolves to the same value
+    const resolvedName = buildFileName(fileNamePattern, values, i);
+    let baseName = resolvedName;
+    let suffix = 2;
+    while (usedNames.has(baseName)) {
+      baseName = `${resolvedName}_${suffix++}`;
+    }
+    usedNames.add(baseName);
+
+    const textMarkdown = resolvePageVariables(markdown);
+
+    for (const format of formats) {
+      const fileName = `${baseName}.${FORMAT_EXTENSIONS[format]}`;
+      if (format === 'markdown') {
+        zip.file(fileName, textMarkdown);
+      } else if (format === 'html') {
+        zip.file(fileName, buildReportHtmlDocument(textMarkdown, baseName));
+      } else if (format === 'docx') {
+        zip.file(fileName, await renderMarkdownToDocx(textMarkdown, { title: baseName }));
+      } else {
+        zip.file(fileName, await renderMarkdownToPdf(markdown, pdfFonts, { title: baseName }));
+      }
+    }
+
+    onProgress?.(n + 1, total);
+  }
+
+  return zip.generateAsync({ type: 'blob' });
+};
@@ -0,0 +1,153 @@
+import { ColumnMappingProfile, ColumnSynonymGroup } from '../types';
+
+/**
+ * Mapping of template table headers to Excel headers: saved profiles for known
+ * spreadsheet layouts, with a synonym dictionary as fallback.
+ */
+
+// Used until the user edits the dictionary
+export const DEFAULT_COLUMN_SYNONYMS: ColumnSynonymGroup[] = [
+  { name: 'No.', terms: ['序号', 'no.'] },
+  { name: 'Name', terms: ['inci', 'name', '名称'] },
+  { name: 'CAS', terms: ['cas'] },
+  { name: 'Content', terms: ['含量', '%', 'content', 'weight'] },
+  { name: 'Function', terms: ['作用', '功能', 'function'] }
+];
+
+// Profiles scoring below this are not applied automatically
+const MIN_PROFILE_SCORE = 0.6;
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Position of the earliest synonym term in the header, -1 when none occurs.
+// "CAS No." belongs to CAS rather than No. because "cas" comes first.
+const termIndex = (header: string, group: ColumnSynonymGroup) => {
+  const lower = header.toLowerCase();
+  const positions = group.terms
+    .map(term => term.toLowerCase().trim())
+    .filter(Boolean)
+    .map(term => lower.indexOf(term))
+    .filter(index => index >= 0);
+  return positions.length > 0 ? Math.min(...positions) : -1;
+};
+
+const bySynonyms = (target: string, excelHeaders: string[], synonyms: ColumnSynonymGroup[]) => {
+  const groups = synonyms
+    .map(group => ({ group, index: termIndex(target, group) }))
+    .filter(entry => entry.index >= 0)
+    .sort((a, b) => a.index - b.index);
+
+  for (const { group } of groups) {
+    const candidates = excelHeaders
+      .map(header => ({ header, index: termIndex(header, group) }))
+      .filter(entry => entry.index >= 0)
+      .sort((a, b) => a.index - b.index);
+    if (candidates.length > 0) return candidates[0].header;
+  }
+  return undefined;
+};
+
+/**
+ * Map each target header to an Excel header: exact match first, then a shared
+ * synonym group, then plain containment. Unmatched headers map to ''.
+ */
+export const smartMapColumns = (targetHeaders: string[], excelHeaders: string[], synonyms: ColumnSynonymGroup[] = DEFAULT_COLUMN_SYNONYMS) => {
+  const mapping: Record<string, string> = {};
+
+  targetHeaders.forEach(target => {
+    const tLow = normalizeHeader(target);
+
+    // 1. Exact Match
+    let match = excelHeaders.find(eh => normalizeHeader(eh) === tLow);
+
+    // 2. Synonym group containing both headers
+    if (!match) match = bySynonyms(target, excelHeaders, synonyms);
+
+    // 3. Fallback: Containment
+    if (!match && tLow) {
+      match = excelHeaders.find(eh => {
+        const eLow = normalizeHeader(eh);
+        return eLow !== '' && (eLow.includes(tLow) || tLow.includes(eLow));
+      });
+    }
+
+    mapping[target] = match || '';
+  });
+  return mapping;
+};
+
+interface ProfileContext {
+  templateId: string;
+  targetHeaders: string[];
+  excelHeaders: string[];
+}
+
+/**
+ * How well a profile fits: overlap of its saved header set with the loaded
+ * headers, weighted by how many target headers it maps to an existing column.
+ * Profiles of other templates never match.
+ */
+export const scoreMappingProfile = (profile: ColumnMappingProfile, context: ProfileContext) => {
+  if (profile.templateId && profile.templateId !== context.templateId) return 0;
+  const saved = new Set(profile.sourceHeaders.map(normalizeHeader));
+  const loaded = new Set(context.excelHeaders.map(normalizeHeader));
+  if (saved.size === 0 || loaded.size === 0 || context.targetHeaders.length === 0) return 0;
+
+  const shared = Array.from(saved).filter(h => loaded.has(h)).length;
+  const overlap = shared / new Set([...saved, ...loaded]).size;
+  const covered = context.targetHeaders.filter(h => {
+    const column = profile.mapping[h];
+    return column !== undefined && (column === '' || loaded.has(normalizeHeader(column)));
+  }).length;
+
+  return overlap * (covered / context.targetHeaders.length);
+};
+
+/**
+ * The best profile for the loaded layout, preferring template-specific ones
+ * on equal score. Returns null when nothing fits well enough.
+ */
+export const findBestMappingProfile = (profiles: ColumnMappingProfile[], context: ProfileContext): ColumnMappingProfile | null => {
+  let best: { profile: ColumnMappingProfile; score: number } | null = null;
+  for (const profile of profiles) {
+    const score = scoreMappingProfile(profile, context);
+    if (score < MIN_PROFILE_SCORE) continue;
+    const better = !best || score > best.score || (score === best.score && !best.profile.templateId && !!profile.templateId);
+    if (better) best = { profile, score };
+  }
+  return best?.profile ?? null;
+};
+
+/**
+ * Mapping from a profile. Headers the profile does not know, or whose column
+ * is missing from this spreadsheet, fall back to synonym matching.
+ */
+export const applyMappingProfile = (
+  profile: ColumnMappingProfile,
+  targetHeaders: string[],
+  excelHeaders: string[],
+  synonyms?: ColumnSynonymGroup[]
+) => {
+  const fallback = smartMapColumns(targetHeaders, excelHeaders, synonyms);
+  const mapping: Record<string, string> = {};
+  targetHeaders.forEach(header => {
+    const column = profile.mapping[header];
+    const existing = column ? excelHeaders.find(eh => normalizeHeader(eh) === normalizeHeader(column)) : undefined;
+    mapping[header] = column === '' ? '' : existing ?? fallback[header];
+  });
+  return mapping;
+};
+
+export const createMappingProfile = (
+  name: string,
+  mapping: Record<string, string>,
+  sourceHeaders: string[],
+  templateId?: string
+): ColumnMappingProfile => ({
+  id: crypto.randomUUID(),
+  name: name.trim(),
+  templateId,
+  sourceHeaders,
+  mapping,
+  updatedAt: Date.now()
+});
@@ -0,0 +1,160 @@
+import { ColumnDataType, DataCleaningChange, ExcelData, ExcelSheet } from '../types';
+import { formatDate, parseDateValue } from './templateFilters';
+import { getWorkbookSheets } from './workbook';
+
+/**
+ * Normalization pass over uploaded data: rebuild multi-row headers, trim
+ * cells, convert Excel serial dates and percentage cells, and infer a type per
+ * column. The parsed sheets are kept so every change can be reverted.
+ */
+
+// Columns whose header suggests a date are checked for date values even without an Excel date format
+const DATE_HEADER_PATTERN = /date|日期|有效期|expir|manufactur|生产/i;
+const PERCENT_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)\s*%$/;
+
+const isNumeric = (value: string) => /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(value.replace(/,/g, ''));
+
+const isBlank = (value: unknown) => value === undefined || value === null || String(value).trim() === '';
+
+/**
+ * Headers with their parent rows joined as "Parent / Child". A row above the
+ * header counts as a parent row when a label spans adjacent columns (a merged
+ * cell); title rows merged across the whole table and key/value rows are ignored.
+ */
+const buildHeaders = (sheet: ExcelSheet): string[] => {
+  const rows = sheet.headerRows;
+  if (!rows || rows.length === 0) return sheet.headers;
+  const headerRow = rows[rows.length - 1];
+
+  const parents: string[][] = [];
+  for (let i = rows.length - 2; i >= 0; i--) {
+    const row = rows[i];
+    const spansColumns = row.some((label, c) => label !== '' && row[c + 1] === label);
+    // A single label across every column is a title row
+    const isTitle = new Set(row).size === 1;
+    if (!spansColumns || isTitle) break;
+    parents.unshift(row);
+  }
+
+  const built = sheet.headers.map((header, c) => {
+    const parts = [...parents.map(row => row[c]), headerRow[c]].filter(Boolean);
+    // Vertically merged cells repeat the same label on every row
+    const labels = parts.filter((part, i) => part !== parts[i - 1]);
+    return labels.length > 0 ? labels.join(' / ') : header;
+  });
+
+  // Keep headers unique so no column overwrites another
+  const seen = new Map<string, number>();
+  return built.map(header => {
+    const count = (seen.get(header) || 0) + 1;
+    seen.set(header, count);
+    return count > 1 ? `${header} (${count})` : header;
+  });
+};
+
+export const inferColumnType = (header: string, values: unknown[], format?: 'date' | 'percentage'): ColumnDataType => {
+  const filled = values.filter(value => !isBlank(value)).map(value => (value instanceof Date ? value : String(value).trim()));
+  if (filled.length === 0) return 'empty';
+  if (format) return format;
+  if (filled.every(value => typeof value === 'string' && PERCENT_PATTERN.test(value))) return 'percentage';
+  if (DATE_HEADER_PATTERN.test(header) && filled.every(value => value instanceof Date || parseDateValue(value) !== null)) return 'date';
+  if (filled.every(value => typeof value === 'string' && isNumeric(value))) return 'number';
+  return 'text';
+};
+
+const formatPercentage = (value: number) => `${Number((value * 100).toFixed(6))}%`;
+
+const cleanSheet = (sheet: ExcelSheet): { sheet: ExcelSheet; changes: DataCleaningChange[] } => {
+  const changes: DataCleaningChange[] = [];
+  const record = (column: string, kind: DataCleaningChange['kind'], before: unknown, after: unknown) => {
+    const existing = changes.find(change => change.column === column && change.kind === kind);
+    if (existing) existing.count++;
+    else changes.push({ sheet: sheet.name, column, kind, count: 1, before: String(before), after: String(after) });
+  };
+
+  // 1. Headers
+  const headers = buildHeaders(sheet);
+  headers.forEach((header, i) => {
+    if (header !== sheet.headers[i]) record(header, 'header', sheet.headers[i], header);
+  });
+
+  const columnFormats: Record<string, 'date' | 'percentage'> = {};
+  sheet.headers.forEach((original, i) => {
+    const format = sheet.columnFormats?.[original];
+    if (format) columnFormats[headers[i]] = format;
+  });
+
+  // 2. Trim text cells
+  const rows = sheet.rows.map(row => {
+    const cleaned: Record<string, any> = {};
+    sheet.headers.forEach((original, i) => {
+      const value = row[original];
+      if (typeof value === 'string') {
+        const trimmed = value.replace(/\u00a0/g, ' ').trim();
+        if (trimmed !== value) record(headers[i], 'trim', JSON.stringify(value), JSON.stringify(trimmed));
+        cleaned[headers[i]] = trimmed;
+      } else {
+        cleaned[headers[i]] = value;
+      }
+    });
+    return cleaned;
+  });
+
+  // 3. Infer column types and convert serial dates / percentage cells
+  const columnTypes: Record<string, ColumnDataType> = {};
+  headers.forEach(header => {
+    const type = inferColumnType(header, rows.map(row => row[header]), columnFormats[header]);
+    columnTypes[header] = type;
+
+    rows.forEach(row => {
+      const value = row[header];
+      if (type === 'date' && typeof value === 'number') {
+        const date = parseDateValue(String(value));
+        if (!date) return;
+        row[header] = formatDate(date, 'YYYY-MM-DD');
+        record(header, 'date', value, row[header]);
+      } else if (type === 'percentage' && typeof value === 'number') {
+        row[header] = formatPercentage(value);
+        record(header, 'percentage', value, row[header]);
+      }
+    });
+  });
+
+  return { sheet: { ...sheet, headers, rows, columnFormats, columnTypes }, changes };
+};
+
+const withSheets = (data: ExcelData, sheets: ExcelSheet[]): ExcelData => {
+  const active = sheets.find(sheet => sheet.name === data.activeSheet) || sheets[0];
+  return { ...data, sheets, activeSheet: active?.name, headers: active?.headers || [], rows: active?.rows || [] };
+};
+
+/**
+ * Clean every sheet. The changes and the parsed sheets are kept on
+ * `data.cleaning` until the user accepts or reverts them.
+ */
+export const cleanExcelData = (data: ExcelData): ExcelData => {
+  const original = getWorkbookSheets(data);
+  const results = original.map(cleanSheet);
+  const changes = results.flatMap(result => result.changes);
+  const cleaned = withSheets(data, results.map(result => result.sheet));
+  return { ...cleaned, cleaning: changes.length > 0 ? { changes, originalSheets: original } : undefined };
+};
+
+export const acceptDataCleaning = (data: ExcelData): ExcelData => ({ ...data, cleaning: undefined });
+
+export const revertDataCleaning = (data: ExcelData): ExcelData => {
+  if (!data.cleaning) return data;
+  return { ...withSheets(data, data.cleaning.originalSheets), cleaning: undefined };
+};
+
+export const summarizeCleaningChanges = (changes: DataCleaningChange[]) => {
+  const labels: Record<DataCleaningChange['kind'], string> = {
+    header: 'headers',
+    trim: 'trimmed cells',
+    date: 'dates',
+    percentage: 'percentages'
+  };
+  const totals = new Map<DataCleaningChange['kind'], number>();
+  changes.forEach(change => totals.set(change.kind, (totals.get(change.kind) || 0) + change.count));
+  return Array.from(totals.entries()).map(([kind, count]) => `${count} ${labels[kind]}`).join(', ');
+};
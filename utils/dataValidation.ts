@@ -0,0 +1,141 @@
+import { DataRuleType, DataValidationRule } from '../types';
+
+/**
+ * Row-level validation of the data grid. Rules apply to every column whose
+ * header contains the rule's column term; cell issues are highlighted in the
+ * grid, and blocking issues stop table inserts and export.
+ */
+
+export const DATA_RULE_TYPES: { value: DataRuleType; label: string }[] = [
+  { value: 'required', label: 'Required' },
+  { value: 'cas', label: 'CAS number' },
+  { value: 'range', label: 'Numeric range' },
+  { value: 'percentage-sum', label: 'Sums to 100%' }
+];
+
+// Used until the user edits the rules
+export const DEFAULT_DATA_VALIDATION_RULES: DataValidationRule[] = [
+  { id: 'default-cas', column: 'cas', type: 'cas', blocking: true },
+  { id: 'default-content', column: '含量', type: 'percentage-sum', blocking: false }
+];
+
+export interface DataIssue {
+  ruleId: string;
+  column: string;
+  row?: number; // Row index in the sheet; undefined for column-wide rules
+  message: string;
+  blocking: boolean;
+}
+
+// Rounding in source spreadsheets rarely lands exactly on 100
+const PERCENTAGE_SUM_TOLERANCE = 0.01;
+
+const CAS_PATTERN = /^(\d{2,7})-(\d{2})-(\d)$/;
+
+// Safety data sheets mark undisclosed or missing CAS numbers with these instead of leaving the cell empty
+const CAS_PLACEHOLDERS = new Set([
+  'n/a', 'na', 'n.a.', 'not applicable', 'not available', 'no data', 'confidential', 'trade secret', 'proprietary',
+  '保密', '商业秘密', '不适用', '无', '暂无'
+]);
+const isCasPlaceholder = (value: string) => {
+  const text = value.trim().toLowerCase();
+  return CAS_PLACEHOLDERS.has(text) || /^[-–—\/.]+$/.test(text);
+};
+const NUMBER_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)$/;
+
+/**
+ * CAS Registry Number check: the last digit equals the sum of the other
+ * digits, each weighted by its position from the right, modulo 10.
+ */
+export const isValidCasNumber = (value: string) => {
+  const match = value.trim().match(CAS_PATTERN);
+  if (!match) return false;
+  const digits = (match[1] + match[2]).split('').reverse();
+  const sum = digits.reduce((total, digit, i) => total + Number(digit) * (i + 1), 0);
+  return sum % 10 === Number(match[3]);
+};
+
+const parseCellNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const text = String(value ?? '').replace(/,/g, '').replace(/%$/, '').trim();
+  return NUMBER_PATTERN.test(text) ? Number(text) : null;
+};
+
+const isBlank = (value: unknown) => value === undefined || value === null || String(value).trim() === '';
+
+export const getRuleColumns = (rule: DataValidationRule, headers: string[]) => {
+  const term = rule.column.toLowerCase().trim();
+  if (!term) return [];
+  return headers.filter(header => header.toLowerCase().includes(term));
+};
+
+const checkCell = (rule: DataValidationRule, value: unknown): string | null => {
+  switch (rule.type) {
+    case 'required':
+      return isBlank(value) ? 'Required' : null;
+    case 'cas': {
+      if (isBlank(value) || isCasPlaceholder(String(value))) return null;
+      // Mixtures list several CAS numbers in one cell
+      const parts = String(value).split(/[\/,;，；\s]+/).filter(Boolean);
+      const invalid = parts.find(part => !isValidCasNumber(part) && !isCasPlaceholder(part));
+      return invalid ? `Invalid CAS number ${invalid}` : null;
+    }
+    case 'range': {
+      if (isBlank(value)) return null;
+      const n = parseCellNumber(value);
+      if (n === null) return 'Must be a number';
+      if (rule.min !== undefined && n < rule.min) return `Must be at least ${rule.min}`;
+      if (rule.max !== undefined && n > rule.max) return `Must be at most ${rule.max}`;
+      return null;
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Validate the rows at `rowIndices` (every row when omitted). Column-wide
+ * rules such as percentage sums are checked across those rows together.
+ */
+export const validateDataRows = (
+  headers: string[],
+  rows: Record<string, any>[],
+  rules: DataValidationRule[],
+  rowIndices: number[] = rows.map((_, i) => i)
+): DataIssue[] => {
+  const issues: DataIssue[] = [];
+  const checked = rowIndices.filter(i => i < rows.length);
+
+  rules.forEach(rule => {
+    getRuleColumns(rule, headers).forEach(column => {
+      if (rule.type === 'percentage-sum') {
+        const values = checked.map(i => rows[i][column]).filter(value => !isBlank(value));
+        if (values.length === 0) return;
+        const numbers = values.map(parseCellNumber);
+        if (numbers.some(n => n === null)) {
+          issues.push({ ruleId: rule.id, column, message: 'Contains values that are not percentages', blocking: rule.blocking });
+          return;
+        }
+        const sum = (numbers as number[]).reduce((total, n) => total + n, 0);
+        // Excel percentage cells hold fractions that sum to 1
+        const isFractionSum = Math.abs(sum - 1) <= PERCENTAGE_SUM_TOLERANCE / 100;
+        if (!isFractionSum && Math.abs(sum - 100) > PERCENTAGE_SUM_TOLERANCE) {
+          issues.push({ ruleId: rule.id, column, message: `Sums to ${Number(sum.toFixed(4))}%, expected 100%`, blocking: rule.blocking });
+        }
+        return;
+      }
+
+      checked.forEach(index => {
+        const message = checkCell(rule, rows[index][column]);
+        if (message) issues.push({ ruleId: rule.id, column, row: index, message, blocking: rule.blocking });
+      });
+    });
+  });
+
+  return issues;
+};
+
+export const getCellIssueKey = (row: number, column: string) => `${row}:${column}`;
+
+export const formatDataIssue = (issue: DataIssue) =>
+  issue.row === undefined ? `${issue.column}: ${issue.message}` : `Row ${issue.row + 1}, ${issue.column}: ${issue.message}`;
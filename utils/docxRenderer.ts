@@ -0,0 +1,219 @@
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  HeadingLevel,
+  Packer,
+  Paragraph,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType
+} from 'docx';
+import { marked, Token, Tokens } from 'marked';
+import { InlineRun, inlineRuns, decodeEntities } from './reportRenderer';
+
+/**
+ * Markdown -> DOCX renderer (the reverse of mammoth's DOCX import).
+ * Produces an editable Word file with real headings, bold key/value labels,
+ * the centered three-line title block and bordered tables.
+ */
+
+const BODY_FONT = 'Arial';
+const MONO_FONT = 'Consolas';
+// Half-points, matching the 10pt body text of the PDF export
+const BODY_SIZE = 20;
+const TABLE_SIZE = 18;
+
+// 20mm page margins in twips
+const PAGE_MARGIN = 1134;
+
+const HEADING_LEVELS = {
+  1: HeadingLevel.HEADING_1,
+  2: HeadingLevel.HEADING_2,
+  3: HeadingLevel.HEADING_3,
+  4: HeadingLevel.HEADING_4,
+  5: HeadingLevel.HEADING_5,
+  6: HeadingLevel.HEADING_6
+} as const;
+
+const CELL_BORDER = { style: BorderStyle.SINGLE, size: 4, color: '000000' };
+const TABLE_BORDERS = {
+  top: CELL_BORDER,
+  bottom: CELL_BORDER,
+  left: CELL_BORDER,
+  right: CELL_BORDER,
+  insideHorizontal: CELL_BORDER,
+  insideVertical: CELL_BORDER
+};
+
+export interface DocxRenderOptions {
+  title?: string;
+}
+
+const toTextRuns = (runs: InlineRun[], size = BODY_SIZE): TextRun[] => {
+  const result: TextRun[] = [];
+  runs.forEach(run => {
+    run.text.split('\n').forEach((part, idx) => {
+      result.push(new TextRun({
+        text: part,
+        bold: run.bold,
+        italics: run.italic,
+        font: run.code ? MONO_FONT : BODY_FONT,
+        size,
+        break: idx > 0 ? 1 : undefined
+      }));
+    });
+  });
+  return result;
+};
+
+const tokenRuns = (token: Tokens.Generic): InlineRun[] => {
+  const runs = inlineRuns(token.tokens);
+  return runs.length > 0 ? runs : [{ text: decodeEntities(token.text || '') }];
+};
+
+const renderTable = (token: Tokens.Table): Table => {
+  const toAlignment = (align: Tokens.TableCell['align']) =>
+    align === 'center' ? AlignmentType.CENTER : align === 'right' ? AlignmentType.RIGHT : AlignmentType.LEFT;
+
+  const buildRow = (cells: Tokens.TableCell[], isHeader: boolean) => new TableRow({
+    tableHeader: isHeader || undefined,
+    children: cells.map((cell, col) => new TableCell({
+      borders: { top: CELL_BORDER, bottom: CELL_BORDER, left: CELL_BORDER, right: CELL_BORDER },
+      margins: { top: 40, bottom: 40, left: 80, right: 80 },
+      children: [new Paragraph({
+        alignment: toAlignment(token.align[col]),
+        children: toTextRuns(inlineRuns(cell.tokens, isHeader ? { bold: true } : {}), TABLE_SIZE)
+      })]
+    }))
+  });
+
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    borders: TABLE_BORDERS,
+    rows: [
+      buildRow(token.header, true),
+      ...token.rows.map(row => buildRow(row, false))
+    ]
+  });
+};
+
+const renderList = (token: Tokens.List, level: number): Paragraph[] => {
+  const paragraphs: Paragraph[] = [];
+  const start = typeof token.start === 'number' ? token.start : 1;
+
+  token.items.forEach((item, idx) => {
+    const prefix = token.ordered ? `${start + idx}. ` : '• ';
+    let prefixed = false;
+    item.tokens.forEach(child => {
+      if (child.type === 'list') {
+        paragraphs.push(...renderList(child as Tokens.List, level + 1));
+        return;
+      }
+      if (child.type === 'space') return;
+      const runs = tokenRuns(child as Tokens.Generic);
+      paragraphs.push(new Paragraph({
+        indent: { left: 360 * (level + 1), hanging: prefixed ? 0 : 240 },
+        spacing: { after: 60 },
+        children: toTextRuns(prefixed ? runs : [{ text: prefix }, ...runs])
+      }));
+      prefixed = true;
+    });
+  });
+
+  return paragraphs;
+};
+
+const renderTokens = (tokens: Token[]): (Paragraph | Table)[] => {
+  const blocks: (Paragraph | Table)[] = [];
+  let titleHeadingCount = 0;
+
+  tokens.forEach(token => {
+    switch (token.type) {
+      case 'heading': {
+        const heading = token as Tokens.Heading;
+        // The first three H1 lines form the centered title block
+        const centered = heading.depth === 1 && titleHeadingCount < 3;
+        if (heading.depth === 1) titleHeadingCount += 1;
+        blocks.push(new Paragraph({
+          heading: HEADING_LEVELS[heading.depth as keyof typeof HEADING_LEVELS] ?? HeadingLevel.HEADING_6,
+          alignment: centered ? AlignmentType.CENTER : AlignmentType.LEFT,
+          children: toTextRuns(inlineRuns(heading.tokens, { bold: true }))
+        }));
+        break;
+      }
+      case 'paragraph':
+      case 'text':
+        blocks.push(new Paragraph({
+          spacing: { after: 160 },
+          children: toTextRuns(tokenRuns(token as Tokens.Generic))
+        }));
+        break;
+      case 'list':
+        blocks.push(...renderList(token as Tokens.List, 0));
+        break;
+      case 'table':
+        blocks.push(renderTable(token as Tokens.Table));
+        // Word merges adjacent tables; keep an empty paragraph between them
+        blocks.push(new Paragraph({}));
+        break;
+      case 'hr':
+        blocks.push(new Paragraph({
+          border: { bottom: { style: BorderStyle.SINGLE, size: 12, color: '000000', space: 1 } },
+          children: []
+        }));
+        break;
+      case 'code':
+        (token as Tokens.Code).text.split('\n').forEach(line => {
+          blocks.push(new Paragraph({ children: toTextRuns([{ text: line, code: true }]) }));
+        });
+        break;
+      case 'blockquote':
+        (token as Tokens.Blockquote).tokens.forEach(child => {
+          blocks.push(new Paragraph({
+            indent: { left: 360 },
+            children: toTextRuns(tokenRuns(child as Tokens.Generic))
+          }));
+        });
+        break;
+      case 'html':
+        blocks.push(new Paragraph({ children: toTextRuns(inlineRuns([token])) }));
+        break;
+      default:
+        break;
+    }
+  });
+
+  return blocks;
+};
+
+/**
+ * Render filled report Markdown to a DOCX file.
+ */
+export const renderMarkdownToDocx = async (markdown: string, options: DocxRenderOptions = {}): Promise<Uint8Array> => {
+  const tokens = marked.lexer(markdown, { gfm: true, breaks: true });
+
+  const doc = new Document({
+    title: options.title,
+    creator: 'SmartDoc AI',
+    styles: {
+      default: {
+        document: { run: { font: BODY_FONT, size: BODY_SIZE } },
+        heading1: { run: { font: BODY_FONT, size: 32, bold: true, color: '000000' }, paragraph: { spacing: { after: 120 } } },
+        heading2: { run: { font: BODY_FONT, size: 26, bold: true, color: '000000' }, paragraph: { spacing: { before: 240, after: 120 } } },
+        heading3: { run: { font: BODY_FONT, size: 22, bold: true, color: '000000' }, paragraph: { spacing: { before: 200, after: 100 } } },
+        heading4: { run: { font: BODY_FONT, size: 20, bold: true, color: '000000' }, paragraph: { spacing: { before: 160, after: 80 } } }
+      }
+    },
+    sections: [{
+      properties: {
+        page: { margin: { top: PAGE_MARGIN, bottom: PAGE_MARGIN, left: PAGE_MARGIN, right: PAGE_MARGIN } }
+      },
+      children: renderTokens(tokens)
+    }]
+  });
+
+  return Packer.pack(doc, 'uint8array');
+};
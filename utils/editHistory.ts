@@ -0,0 +1,66 @@
+/**
+ * Snapshot-based undo/redo history. Every entry holds the complete state after
+ * a change, so undoing is moving the cursor back; new changes drop the redo
+ * branch. Consecutive changes sharing a group (typing into one field) within
+ * a short window collapse into a single entry.
+ */
+
+// Oldest entries are dropped beyond this limit
+export const MAX_HISTORY_ENTRIES = 100;
+
+// Typing pauses longer than this start a new undo step
+const GROUP_WINDOW_MS = 1000;
+
+export interface HistoryEntry<T> {
+  id: number;
+  label: string;
+  state: T;
+  group?: string;
+  updatedAt: number;
+}
+
+export interface EditHistory<T> {
+  entries: HistoryEntry<T>[]; // Oldest first; the first entry is the initial state
+  index: number; // Entry currently shown
+  nextId: number;
+}
+
+export const createHistory = <T>(state: T, label = 'Opened'): EditHistory<T> => ({
+  entries: [{ id: 0, label, state, updatedAt: Date.now() }],
+  index: 0,
+  nextId: 1
+});
+
+export const getPresent = <T>(history: EditHistory<T>): T => history.entries[history.index].state;
+
+export const canUndo = <T>(history: EditHistory<T>) => history.index > 0;
+
+export const canRedo = <T>(history: EditHistory<T>) => history.index < history.entries.length - 1;
+
+export const recordHistory = <T>(history: EditHistory<T>, state: T, label: string, group?: string): EditHistory<T> => {
+  const now = Date.now();
+  const entries = history.entries.slice(0, history.index + 1);
+  const last = entries[entries.length - 1];
+
+  // The initial entry is never merged so the opened state stays reachable
+  if (group && history.index > 0 && last.group === group && now - last.updatedAt < GROUP_WINDOW_MS) {
+    entries[entries.length - 1] = { ...last, state, updatedAt: now };
+    return { ...history, entries };
+  }
+
+  entries.push({ id: history.nextId, label, state, group, updatedAt: now });
+  const overflow = Math.max(0, entries.length - MAX_HISTORY_ENTRIES);
+  const kept = entries.slice(overflow);
+  return { entries: kept, index: kept.length - 1, nextId: history.nextId + 1 };
+};
+
+export const undoHistory = <T>(history: EditHistory<T>): EditHistory<T> =>
+  canUndo(history) ? { ...history, index: history.index - 1 } : history;
+
+export const redoHistory = <T>(history: EditHistory<T>): EditHistory<T> =>
+  canRedo(history) ? { ...history, index: history.index + 1 } : history;
+
+export const jumpToHistory = <T>(history: EditHistory<T>, id: number): EditHistory<T> => {
+  const index = history.entries.findIndex(entry => entry.id === id);
+  return index >= 0 ? { ...history, index } : history;
+};
@@ -0,0 +1,423 @@
+import { ComputedVariable } from '../types';
+import { formatDate, parseDateValue } from './templateFilters';
+import { lookupRowField, TemplateRow } from './templateEngine';
+
+/**
+ * Expressions for computed template variables, evaluated without `eval`.
+ *
+ *   SUM(Ingredients.[Weight(%)])
+ *   ADD_MONTHS(ManufactureDate, ShelfLifeMonths)
+ *   "MSDS-" & PAD(Sequence, 4)
+ *   IF(TotalWeight > 100, "Check weights", "OK")
+ *
+ * Names with spaces or punctuation go in brackets: `[Product Name]`.
+ * `Table.Column` reads a column of a `{{#each Table}}` loop as a list.
+ */
+
+type Value = number | string | boolean | Value[];
+
+type ExpressionNode =
+  | { type: 'literal'; value: Value }
+  | { type: 'ref'; name: string; column?: string }
+  | { type: 'unary'; op: '-' | '!'; operand: ExpressionNode }
+  | { type: 'binary'; op: string; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'call'; name: string; args: ExpressionNode[] };
+
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'name'; value: string }
+  | { kind: 'op'; value: string };
+
+export class ExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+const OPERATORS = ['<=', '>=', '!=', '<>', '==', '&&', '||', '+', '-', '*', '/', '%', '&', '<', '>', '=', '(', ')', ',', '.', '!'];
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < input.length) {
+    const char = input[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    if (/\d/.test(char) || (char === '.' && /\d/.test(input[i + 1] || ''))) {
+      const match = input.slice(i).match(/^\d*\.?\d+(e[-+]?\d+)?/i)!;
+      tokens.push({ kind: 'number', value: Number(match[0]) });
+      i += match[0].length;
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      const end = input.indexOf(char, i + 1);
+      if (end === -1) throw new ExpressionError('Unterminated string');
+      tokens.push({ kind: 'string', value: input.slice(i + 1, end) });
+      i = end + 1;
+      continue;
+    }
+    if (char === '[') {
+      const end = input.indexOf(']', i + 1);
+      if (end === -1) throw new ExpressionError('Missing ]');
+      tokens.push({ kind: 'name', value: input.slice(i + 1, end).trim() });
+      i = end + 1;
+      continue;
+    }
+    const name = input.slice(i).match(/^[\p{L}_][\p{L}\p{N}_]*/u);
+    if (name) {
+      tokens.push({ kind: 'name', value: name[0] });
+      i += name[0].length;
+      continue;
+    }
+    const op = OPERATORS.find(candidate => input.startsWith(candidate, i));
+    if (!op) throw new ExpressionError(`Unexpected character "${char}"`);
+    tokens.push({ kind: 'op', value: op });
+    i += op.length;
+  }
+  return tokens;
+};
+
+const parseExpression = (input: string): ExpressionNode => {
+  const tokens = tokenize(input);
+  let pos = 0;
+
+  const peekOp = (...ops: string[]) => {
+    const token = tokens[pos];
+    return token?.kind === 'op' && ops.includes(token.value) ? token.value : null;
+  };
+  const expectOp = (op: string) => {
+    if (!peekOp(op)) throw new ExpressionError(`Expected "${op}"`);
+    pos++;
+  };
+
+  const binaryLevel = (ops: string[], next: () => ExpressionNode) => (): ExpressionNode => {
+    let left = next();
+    let op: string | null;
+    while ((op = peekOp(...ops))) {
+      pos++;
+      left = { type: 'binary', op, left, right: next() };
+    }
+    return left;
+  };
+
+  const primary = (): ExpressionNode => {
+    const token = tokens[pos];
+    if (!token) throw new ExpressionError('Unexpected end of expression');
+    pos++;
+
+    if (token.kind === 'number' || token.kind === 'string') return { type: 'literal', value: token.value };
+    if (token.kind === 'op' && token.value === '(') {
+      const inner = orExpr();
+      expectOp(')');
+      return inner;
+    }
+    if (token.kind === 'name') {
+      if (peekOp('(')) {
+        pos++;
+        const args: ExpressionNode[] = [];
+        if (!peekOp(')')) {
+          args.push(orExpr());
+          while (peekOp(',')) {
+            pos++;
+            args.push(orExpr());
+          }
+        }
+        expectOp(')');
+        return { type: 'call', name: token.value.toUpperCase(), args };
+      }
+      if (peekOp('.')) {
+        pos++;
+        const column = tokens[pos];
+        if (column?.kind !== 'name') throw new ExpressionError(`Expected a column name after "${token.value}."`);
+        pos++;
+        return { type: 'ref', name: token.value, column: column.value };
+      }
+      if (/^(true|false)$/i.test(token.value)) return { type: 'literal', value: token.value.toLowerCase() === 'true' };
+      return { type: 'ref', name: token.value };
+    }
+    throw new ExpressionError(`Unexpected "${token.value}"`);
+  };
+
+  const unary = (): ExpressionNode => {
+    const op = peekOp('-', '!');
+    if (op) {
+      pos++;
+      return { type: 'unary', op: op as '-' | '!', operand: unary() };
+    }
+    return primary();
+  };
+
+  const multiplicative = binaryLevel(['*', '/', '%'], unary);
+  const additive = binaryLevel(['+', '-', '&'], multiplicative);
+  const comparison = binaryLevel(['=', '==', '!=', '<>', '<', '<=', '>', '>='], additive);
+  const andExpr = binaryLevel(['&&'], comparison);
+  const orExpr = binaryLevel(['||'], andExpr);
+
+  const root = orExpr();
+  if (pos < tokens.length) throw new ExpressionError(`Unexpected "${String(tokens[pos].value)}"`);
+  return root;
+};
+
+const toNumber = (value: Value): number | null => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (Array.isArray(value)) return null;
+  const normalized = value.trim().replace(/,/g, '').replace(/%$/, '');
+  if (!normalized || !/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(normalized)) return null;
+  return Number(normalized);
+};
+
+const requireNumber = (value: Value, context: string) => {
+  const n = toNumber(value);
+  if (n === null) throw new ExpressionError(`${context}: "${toText(value)}" is not a number`);
+  return n;
+};
+
+const toText = (value: Value): string => {
+  if (Array.isArray(value)) return value.map(toText).join(', ');
+  if (typeof value === 'number') return Number.isFinite(value) ? String(Number(value.toPrecision(12))) : '';
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+  return value;
+};
+
+const toBoolean = (value: Value): boolean => {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  const text = value.trim().toLowerCase();
+  return text !== '' && text !== 'false' && text !== '0' && text !== 'no data';
+};
+
+const requireDate = (value: Value, context: string) => {
+  const date = parseDateValue(toText(value));
+  if (!date) throw new ExpressionError(`${context}: "${toText(value)}" is not a date`);
+  return date;
+};
+
+const flattenNumbers = (args: Value[]) =>
+  args.flatMap(arg => (Array.isArray(arg) ? arg : [arg])).map(toNumber).filter((n): n is number => n !== null);
+
+const addMonths = (date: Date, months: number) => {
+  const result = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  // Clamp to the last day of the target month (Jan 31 + 1 month = Feb 28/29)
+  const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+  result.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  return result;
+};
+
+const ISO_DATE = 'YYYY-MM-DD';
+
+const FUNCTIONS: Record<string, (args: Value[]) => Value> = {
+  SUM: args => flattenNumbers(args).reduce((sum, n) => sum + n, 0),
+  AVG: args => {
+    const numbers = flattenNumbers(args);
+    return numbers.length ? numbers.reduce((sum, n) => sum + n, 0) / numbers.length : 0;
+  },
+  MIN: args => Math.min(...flattenNumbers(args)),
+  MAX: args => Math.max(...flattenNumbers(args)),
+  COUNT: args => args.reduce<number>((count, arg) => count + (Array.isArray(arg) ? arg.length : 1), 0),
+  ROUND: ([value, digits = 0]) => {
+    const factor = 10 ** requireNumber(digits, 'ROUND');
+    return Math.round(requireNumber(value, 'ROUND') * factor) / factor;
+  },
+  ABS: ([value]) => Math.abs(requireNumber(value, 'ABS')),
+  IF: ([condition, whenTrue = '', whenFalse = '']) => (toBoolean(condition) ? whenTrue : whenFalse),
+  COALESCE: args => args.find(arg => toText(arg).trim() !== '') ?? '',
+  CONCAT: args => args.map(toText).join(''),
+  UPPER: ([value = '']) => toText(value).toUpperCase(),
+  LOWER: ([value = '']) => toText(value).toLowerCase(),
+  PAD: ([value = '', width = 0, fill = '0']) => toText(value).padStart(requireNumber(width, 'PAD'), toText(fill) || '0'),
+  TODAY: () => formatDate(new Date(Date.UTC(new Date().getFullYear(), new Date().getMonth(), new Date().getDate())), ISO_DATE),
+  ADD_DAYS: ([date, days]) => {
+    const base = requireDate(date, 'ADD_DAYS');
+    return formatDate(new Date(base.getTime() + requireNumber(days, 'ADD_DAYS') * 86400000), ISO_DATE);
+  },
+  ADD_MONTHS: ([date, months]) => formatDate(addMonths(requireDate(date, 'ADD_MONTHS'), requireNumber(months, 'ADD_MONTHS')), ISO_DATE),
+  ADD_YEARS: ([date, years]) => formatDate(addMonths(requireDate(date, 'ADD_YEARS'), requireNumber(years, 'ADD_YEARS') * 12), ISO_DATE),
+  FORMAT_DATE: ([date, format = ISO_DATE]) => formatDate(requireDate(date, 'FORMAT_DATE'), toText(format))
+};
+FUNCTIONS.AVERAGE = FUNCTIONS.AVG;
+
+export const EXPRESSION_FUNCTION_NAMES = Object.keys(FUNCTIONS);
+
+interface EvaluationScope {
+  resolve: (name: string) => string | undefined;
+  collections: Record<string, TemplateRow[]>;
+}
+
+const evaluateNode = (node: ExpressionNode, scope: EvaluationScope): Value => {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'ref': {
+      const rows = scope.collections[node.name];
+      if (node.column !== undefined) {
+        if (!rows) throw new ExpressionError(`Unknown table "${node.name}"`);
+        return rows.map(row => lookupRowField(row, node.column!) ?? '');
+      }
+      if (rows) return rows.map(() => '');
+      const value = scope.resolve(node.name);
+      if (value === undefined) throw new ExpressionError(`Unknown variable "${node.name}"`);
+      return value;
+    }
+    case 'unary': {
+      const operand = evaluateNode(node.operand, scope);
+      return node.op === '-' ? -requireNumber(operand, '-') : !toBoolean(operand);
+    }
+    case 'binary': {
+      const left = evaluateNode(node.left, scope);
+      const right = evaluateNode(node.right, scope);
+      switch (node.op) {
+        case '&':
+          return toText(left) + toText(right);
+        case '+': {
+          // Numbers add, anything else concatenates
+          const a = toNumber(left);
+          const b = toNumber(right);
+          return a !== null && b !== null ? a + b : toText(left) + toText(right);
+        }
+        case '-': return requireNumber(left, '-') - requireNumber(right, '-');
+        case '*': return requireNumber(left, '*') * requireNumber(right, '*');
+        case '/': {
+          const divisor = requireNumber(right, '/');
+          if (divisor === 0) throw new ExpressionError('Division by zero');
+          return requireNumber(left, '/') / divisor;
+        }
+        case '%': return requireNumber(left, '%') % requireNumber(right, '%');
+        case '&&': return toBoolean(left) && toBoolean(right);
+        case '||': return toBoolean(left) || toBoolean(right);
+        default: {
+          const a = toNumber(left);
+          const b = toNumber(right);
+          const numeric = a !== null && b !== null;
+          const cmp = numeric ? a! - b! : toText(left).localeCompare(toText(right));
+          if (node.op === '=' || node.op === '==') return cmp === 0;
+          if (node.op === '!=' || node.op === '<>') return cmp !== 0;
+          if (node.op === '<') return cmp < 0;
+          if (node.op === '<=') return cmp <= 0;
+          if (node.op === '>') return cmp > 0;
+          return cmp >= 0;
+        }
+      }
+    }
+    case 'call': {
+      const fn = FUNCTIONS[node.name];
+      if (!fn) throw new ExpressionError(`Unknown function ${node.name}()`);
+      return fn(node.args.map(arg => evaluateNode(arg, scope)));
+    }
+    default:
+      return '';
+  }
+};
+
+const collectReferences = (node: ExpressionNode, refs: Set<string>) => {
+  if (node.type === 'ref' && node.column === undefined) refs.add(node.name);
+  if (node.type === 'unary') collectReferences(node.operand, refs);
+  if (node.type === 'binary') {
+    collectReferences(node.left, refs);
+    collectReferences(node.right, refs);
+  }
+  if (node.type === 'call') node.args.forEach(arg => collectReferences(arg, refs));
+};
+
+/**
+ * Plain variable names an expression reads (table columns excluded).
+ * Expressions with syntax errors reference nothing.
+ */
+export const getExpressionReferences = (expression: string): string[] => {
+  try {
+    const refs = new Set<string>();
+    collectReferences(parseExpression(expression), refs);
+    return Array.from(refs);
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Variables the user has to supply for the computed variables: everything
+ * they reference that is neither computed itself nor a loop table.
+ */
+export const getComputedInputVariables = (computed: ComputedVariable[] | undefined, collectionNames: string[] = []) => {
+  if (!computed) return [];
+  const computedNames = new Set(computed.map(c => c.name));
+  const inputs = new Set<string>();
+  computed.forEach(c => {
+    getExpressionReferences(c.expression).forEach(ref => {
+      if (!computedNames.has(ref) && !collectionNames.includes(ref)) inputs.add(ref);
+    });
+  });
+  return Array.from(inputs);
+};
+
+/**
+ * Check an expression for syntax errors. Returns the error message or null.
+ */
+export const validateExpression = (expression: string): string | null => {
+  if (!expression.trim()) return 'Expression is empty';
+  try {
+    parseExpression(expression);
+    return null;
+  } catch (e: any) {
+    return e instanceof ExpressionError ? e.message : String(e);
+  }
+};
+
+export interface ComputedResult {
+  values: Record<string, string>;
+  errors: Record<string, string>;
+}
+
+/**
+ * Evaluate every computed variable against the entered values and loop rows.
+ * Computed variables may reference each other; cycles are reported as errors.
+ */
+export const evaluateComputedVariables = (
+  computed: ComputedVariable[] | undefined,
+  values: Record<string, string>,
+  collections: Record<string, TemplateRow[]> = {}
+): ComputedResult => {
+  const result: ComputedResult = { values: {}, errors: {} };
+  if (!computed || computed.length === 0) return result;
+
+  const byName = new Map(computed.map(c => [c.name, c]));
+  const evaluating = new Set<string>();
+
+  const evaluate = (name: string): string | undefined => {
+    if (name in result.values) return result.values[name];
+    if (name in result.errors) throw new ExpressionError(`"${name}" has an error`);
+    const definition = byName.get(name)!;
+    if (evaluating.has(name)) throw new ExpressionError(`Circular reference involving "${name}"`);
+
+    evaluating.add(name);
+    try {
+      const value = toText(evaluateNode(parseExpression(definition.expression), { resolve, collections }));
+      result.values[name] = value;
+      return value;
+    } catch (e: any) {
+      result.errors[name] = e instanceof ExpressionError ? e.message : String(e);
+      throw e;
+    } finally {
+      evaluating.delete(name);
+    }
+  };
+
+  function resolve(name: string): string | undefined {
+    if (byName.has(name)) return evaluate(name);
+    return Object.prototype.hasOwnProperty.call(values, name) ? values[name] ?? '' : undefined;
+  }
+
+  computed.forEach(c => {
+    try {
+      evaluate(c.name);
+    } catch {
+      // Recorded in result.errors
+    }
+  });
+
+  return result;
+};
@@ -1,7 +1,8 @@
 import * as pdfjsLib from 'pdfjs-dist';
 import * as XLSX from 'xlsx';
 import mammoth from 'mammoth';
-import { ExcelData } from '../types';
+import { DataSourceInfo, ExcelData, ExcelSheet } from '../types';
+import { cleanExcelData } from './dataCleaning';
 
 // Configure PDF worker
 // Note: In a production bundler setup, this usually points to a local file. 
@@ -133,113 +134,217 @@ export const extractTextFromPdf = async (file: File): Promise<string> => {
   return fullText;
 };
 
+type CellFormatHint = 'date' | 'percentage';
+
+interface SheetLayout {
+  formats: (CellFormatHint | undefined)[][]; // Aligned with the rows
+  merges: XLSX.Range[]; // Merged cell ranges, relative to the rows
+}
+
+// Header rows above the detected header row that may hold parent headers
+const MAX_PARENT_HEADER_ROWS = 2;
+
+/**
+ * Detect key/value pairs, the header row and the data rows of one sheet given
+ * as an array of rows (worksheets, CSV files).
+ */
+const parseSheetRows = (name: string, jsonData: any[][], layout?: SheetLayout): ExcelSheet => {
+  if (jsonData.length === 0) {
+    return { name, headers: [], rows: [], keyValues: {} };
+  }
+
+  // --- KEY-VALUE EXTRACTION (e.g., 产品名称: XXX) ---
+  const keyValues: Record<string, string> = {};
+
+  const tryAddKeyValue = (rawKey: any, rawValue: any) => {
+    const key = rawKey !== undefined && rawKey !== null ? String(rawKey).trim() : '';
+    const value = rawValue !== undefined && rawValue !== null ? String(rawValue).trim() : '';
+    if (!key || !value) return;
+    if (!keyValues[key]) {
+      keyValues[key] = value;
+    }
+  };
+
+  jsonData.forEach((row) => {
+    if (!row || row.length === 0) return;
+
+    // Pattern 1: two-column key/value
+    if (row.length >= 2) {
+      tryAddKeyValue(row[0], row[1]);
+    }
+
+    // Pattern 2: inline "Key: Value" or "Key：Value"
+    row.forEach((cell: any) => {
+      if (cell === null || cell === undefined) return;
+      const text = String(cell).trim();
+      if (!text) return;
+      const splitIdx = text.search(/[:：]/);
+      if (splitIdx <= 0) return;
+      const key = text.slice(0, splitIdx).trim();
+      const value = text.slice(splitIdx + 1).trim();
+      tryAddKeyValue(key, value);
+    });
+  });
+
+  // --- SMART HEADER DETECTION ---
+  // Many Excel files have a title in Row 1 (e.g., "Product Spec"), and headers in Row 2 or 3.
+  // We scan the first 10 rows to find the row with the most non-empty columns.
+  
+  let headerRowIndex = 0;
+  let maxColumns = 0;
+
+  // Scan up to 10 rows or length of file
+  const scanLimit = Math.min(jsonData.length, 10);
+  
+  for (let i = 0; i < scanLimit; i++) {
+      const row = jsonData[i];
+      if (!row) continue;
+      
+      // Count cells that have actual content (not null, undefined, or empty string)
+      const nonEmptyCount = row.filter((cell: any) => 
+          cell !== null && 
+          cell !== undefined && 
+          String(cell).trim() !== ''
+      ).length;
+
+      // If this row has more columns than our current best, it's likely the header
+      if (nonEmptyCount > maxColumns) {
+          maxColumns = nonEmptyCount;
+          headerRowIndex = i;
+      }
+  }
+
+  // Extract headers from the identified row
+  // We ensure headers are strings and handle potential empty/undefined header cells
+  const headersRaw = jsonData[headerRowIndex] || [];
+  const headers = headersRaw.map((h: any, idx: number) => {
+       return h ? String(h).trim() : `Column_${idx + 1}`;
+  });
+
+  // The data rows are everything *after* the header row
+  const rawRows = jsonData.slice(headerRowIndex + 1);
+
+  const rows = rawRows.map((row) => {
+    const rowData: Record<string, any> = {};
+    // Map based on the identified headers length, not just the row length
+    headers.forEach((header, index) => {
+      let cellValue = row[index];
+      // Clean up undefined/null values to empty strings for UI consistency
+      if (cellValue === undefined || cellValue === null) {
+          cellValue = "";
+      }
+      rowData[header] = cellValue;
+    });
+    return rowData;
+  });
+
+  // Filter out completely empty rows that might exist at the bottom
+  const cleanRows = rows.filter(row => Object.values(row).some(v => v !== ""));
+
+  // Raw header rows for the cleaning pass: merged cells repeat their value
+  // across the merge, so "Parent / Child" headers can be rebuilt
+  const firstHeaderRow = Math.max(0, headerRowIndex - MAX_PARENT_HEADER_ROWS);
+  const headerRows = jsonData.slice(firstHeaderRow, headerRowIndex + 1).map((row, offset) => {
+    const r = firstHeaderRow + offset;
+    return headers.map((_, c) => {
+      const merge = layout?.merges.find(m => r >= m.s.r && r <= m.e.r && c >= m.s.c && c <= m.e.c);
+      const value = merge ? jsonData[merge.s.r]?.[merge.s.c] : row[c];
+      return value === undefined || value === null ? '' : String(value).trim();
+    });
+  });
+
+  // A column's Excel format counts when most of its data cells share it
+  const columnFormats: Record<string, CellFormatHint> = {};
+  if (layout) {
+    headers.forEach((header, c) => {
+      const hints = rawRows
+        .map((row, i) => (row[c] === undefined || row[c] === '' ? undefined : layout.formats[headerRowIndex + 1 + i]?.[c] ?? null))
+        .filter(hint => hint !== undefined);
+      (['date', 'percentage'] as CellFormatHint[]).forEach(format => {
+        if (hints.length > 0 && hints.filter(hint => hint === format).length / hints.length > 0.5) columnFormats[header] = format;
+      });
+    });
+  }
+
+  return { name, headers, rows: cleanRows, keyValues, headerRows, columnFormats };
+};
+
+const getCellFormatHint = (cell: XLSX.CellObject): CellFormatHint | undefined => {
+  if (cell.t !== 'n' || !cell.z) return undefined;
+  const format = String(cell.z);
+  if (format.includes('%')) return 'percentage';
+  return XLSX.SSF.is_date(format) ? 'date' : undefined;
+};
+
+/**
+ * Read the used range cell by cell (blank rows included) so number formats
+ * and merges stay aligned with the row data.
+ */
+const parseWorksheet = (name: string, worksheet: XLSX.WorkSheet): ExcelSheet => {
+  if (!worksheet['!ref']) return parseSheetRows(name, []);
+  const range = XLSX.utils.decode_range(worksheet['!ref']);
+  const values: any[][] = [];
+  const formats: (CellFormatHint | undefined)[][] = [];
+
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const rowValues: any[] = [];
+    const rowFormats: (CellFormatHint | undefined)[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      const cell = worksheet[XLSX.utils.encode_cell({ r, c })] as XLSX.CellObject | undefined;
+      const value = !cell ? undefined : cell.t === 'e' ? cell.w : cell.v;
+      rowValues.push(value === undefined || value === null ? '' : value);
+      rowFormats.push(cell ? getCellFormatHint(cell) : undefined);
+    }
+    values.push(rowValues);
+    formats.push(rowFormats);
+  }
+
+  if (!values.some(row => row.some(value => value !== ''))) return parseSheetRows(name, []);
+
+  const merges = (worksheet['!merges'] || []).map(merge => ({
+    s: { r: merge.s.r - range.s.r, c: merge.s.c - range.s.c },
+    e: { r: merge.e.r - range.s.r, c: merge.e.c - range.s.c }
+  }));
+
+  return parseSheetRows(name, values, { formats, merges });
+};
+
+/**
+ * Combine parsed sheets into one dataset. The first sheet with data rows
+ * becomes the active sheet; key/value pairs are merged (first one wins).
+ */
+const buildExcelData = (fileName: string, sheets: ExcelSheet[], source?: DataSourceInfo): ExcelData => {
+  const keyValues: Record<string, string> = {};
+  sheets.forEach(sheet => {
+    Object.entries(sheet.keyValues || {}).forEach(([key, value]) => {
+      if (!keyValues[key]) keyValues[key] = value;
+    });
+  });
+
+  const active = sheets.find(sheet => sheet.rows.length > 0) || sheets[0];
+  return {
+    fileName,
+    headers: active?.headers || [],
+    rows: active?.rows || [],
+    keyValues,
+    sheets,
+    activeSheet: active?.name,
+    source
+  };
+};
+
+/**
+ * Parse every sheet of an Excel workbook.
+ */
 export const parseExcelFile = async (file: File): Promise<ExcelData> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
         const data = e.target?.result;
-        const workbook = XLSX.read(data, { type: 'binary' });
-        const firstSheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[firstSheetName];
-        
-        // Convert to JSON (Array of Arrays) first to analyze structure
-        const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 }) as any[][];
-        
-        if (jsonData.length === 0) {
-          resolve({ fileName: file.name, headers: [], rows: [], keyValues: {} });
-          return;
-        }
-
-        // --- KEY-VALUE EXTRACTION (e.g., 产品名称: XXX) ---
-        const keyValues: Record<string, string> = {};
-
-        const tryAddKeyValue = (rawKey: any, rawValue: any) => {
-          const key = rawKey !== undefined && rawKey !== null ? String(rawKey).trim() : '';
-          const value = rawValue !== undefined && rawValue !== null ? String(rawValue).trim() : '';
-          if (!key || !value) return;
-          if (!keyValues[key]) {
-            keyValues[key] = value;
-          }
-        };
-
-        jsonData.forEach((row) => {
-          if (!row || row.length === 0) return;
-
-          // Pattern 1: two-column key/value
-          if (row.length >= 2) {
-            tryAddKeyValue(row[0], row[1]);
-          }
-
-          // Pattern 2: inline "Key: Value" or "Key：Value"
-          row.forEach((cell: any) => {
-            if (cell === null || cell === undefined) return;
-            const text = String(cell).trim();
-            if (!text) return;
-            const splitIdx = text.search(/[:：]/);
-            if (splitIdx <= 0) return;
-            const key = text.slice(0, splitIdx).trim();
-            const value = text.slice(splitIdx + 1).trim();
-            tryAddKeyValue(key, value);
-          });
-        });
-
-        // --- SMART HEADER DETECTION ---
-        // Many Excel files have a title in Row 1 (e.g., "Product Spec"), and headers in Row 2 or 3.
-        // We scan the first 10 rows to find the row with the most non-empty columns.
-        
-        let headerRowIndex = 0;
-        let maxColumns = 0;
-
-        // Scan up to 10 rows or length of file
-        const scanLimit = Math.min(jsonData.length, 10);
-        
-        for (let i = 0; i < scanLimit; i++) {
-            const row = jsonData[i];
-            if (!row) continue;
-            
-            // Count cells that have actual content (not null, undefined, or empty string)
-            const nonEmptyCount = row.filter((cell: any) => 
-                cell !== null && 
-                cell !== undefined && 
-                String(cell).trim() !== ''
-            ).length;
-
-            // If this row has more columns than our current best, it's likely the header
-            if (nonEmptyCount > maxColumns) {
-                maxColumns = nonEmptyCount;
-                headerRowIndex = i;
-            }
-        }
-
-        // Extract headers from the identified row
-        // We ensure headers are strings and handle potential empty/undefined header cells
-        const headersRaw = jsonData[headerRowIndex] || [];
-        const headers = headersRaw.map((h: any, idx: number) => {
-             return h ? String(h).trim() : `Column_${idx + 1}`;
-        });
-
-        // The data rows are everything *after* the header row
-        const rawRows = jsonData.slice(headerRowIndex + 1);
-
-        const rows = rawRows.map((row) => {
-          const rowData: Record<string, any> = {};
-          // Map based on the identified headers length, not just the row length
-          headers.forEach((header, index) => {
-            let cellValue = row[index];
-            // Clean up undefined/null values to empty strings for UI consistency
-            if (cellValue === undefined || cellValue === null) {
-                cellValue = "";
-            }
-            rowData[header] = cellValue;
-          });
-          return rowData;
-        });
-
-        // Filter out completely empty rows that might exist at the bottom
-        const cleanRows = rows.filter(row => Object.values(row).some(v => v !== ""));
-
-        resolve({ fileName: file.name, headers, rows: cleanRows, keyValues });
+        const workbook = XLSX.read(data, { type: 'binary', cellNF: true });
+        const sheets = workbook.SheetNames.map(name => parseWorksheet(name, workbook.Sheets[name]));
+        resolve(buildExcelData(file.name, sheets, { format: 'excel' }));
       } catch (err) {
         reject(err);
       }
@@ -249,6 +354,233 @@ export const parseExcelFile = async (file: File): Promise<ExcelData> => {
   });
 };
 
+// --- Text-based data sources (CSV / TSV / JSON) ---
+
+const CSV_DELIMITERS = [',', '\t', ';', '|'];
+
+const getFileExtension = (fileName: string) => fileName.split('.').pop()?.toLowerCase() || '';
+
+const getBaseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '') || 'Data';
+
+/**
+ * Decode a text file. BOMs are honoured; otherwise UTF-16 is recognised by its
+ * zero bytes and anything that is not valid UTF-8 is read as GBK, the usual
+ * encoding of exports from Chinese Excel versions.
+ */
+export const decodeTextBuffer = (buffer: ArrayBuffer): { text: string; encoding: string } => {
+  const bytes = new Uint8Array(buffer);
+  const decode = (encoding: string, fatal = false) => new TextDecoder(encoding, { fatal }).decode(bytes);
+
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return { text: decode('utf-8'), encoding: 'UTF-8' };
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return { text: decode('utf-16le'), encoding: 'UTF-16LE' };
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return { text: decode('utf-16be'), encoding: 'UTF-16BE' };
+
+  // Without a BOM, mostly-ASCII UTF-16 has a zero in every other byte
+  const sampleLength = Math.min(bytes.length, 4096);
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < sampleLength; i++) {
+    if (bytes[i] !== 0) continue;
+    if (i % 2 === 0) evenZeros++;
+    else oddZeros++;
+  }
+  const half = sampleLength / 2;
+  if (half > 0 && oddZeros / half > 0.3 && evenZeros / half < 0.05) return { text: decode('utf-16le'), encoding: 'UTF-16LE' };
+  if (half > 0 && evenZeros / half > 0.3 && oddZeros / half < 0.05) return { text: decode('utf-16be'), encoding: 'UTF-16BE' };
+
+  try {
+    return { text: decode('utf-8', true), encoding: 'UTF-8' };
+  } catch {
+    return { text: decode('gbk'), encoding: 'GBK' };
+  }
+};
+
+// Count delimiters outside quoted fields
+const countDelimiter = (line: string, delimiter: string) => {
+  let count = 0;
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === delimiter && !inQuotes) count++;
+  }
+  return count;
+};
+
+/**
+ * Pick the delimiter that splits the first lines into the most consistent
+ * number of columns.
+ */
+export const detectDelimiter = (text: string) => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '').slice(0, 20);
+  let best = ',';
+  let bestScore = 0;
+
+  CSV_DELIMITERS.forEach(delimiter => {
+    const counts = lines.map(line => countDelimiter(line, delimiter));
+    const frequency = new Map<number, number>();
+    counts.filter(count => count > 0).forEach(count => frequency.set(count, (frequency.get(count) || 0) + 1));
+    if (frequency.size === 0) return;
+
+    const [columns, lineCount] = Array.from(frequency.entries()).sort((a, b) => b[1] - a[1] || b[0] - a[0])[0];
+    const score = (lineCount / lines.length) * 1000 + columns;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+
+  return best;
+};
+
+/**
+ * RFC 4180 style parser: quoted fields may contain delimiters, doubled quotes
+ * and line breaks.
+ */
+export const parseDelimitedText = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.map(cells => cells.map(cell => cell.trim()));
+};
+
+const parseDelimitedFile = async (file: File): Promise<ExcelData> => {
+  const { text, encoding } = decodeTextBuffer(await file.arrayBuffer());
+  const delimiter = getFileExtension(file.name) === 'tsv' ? '\t' : detectDelimiter(text);
+  const rows = parseDelimitedText(text, delimiter);
+  const format = delimiter === '\t' ? 'tsv' : 'csv';
+  return buildExcelData(file.name, [parseSheetRows(getBaseName(file.name), rows)], { format, encoding, delimiter });
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Nested objects become dotted keys: { supplier: { name } } -> "supplier.name"
+const flattenObject = (value: Record<string, unknown>, prefix = '', target: Record<string, any> = {}) => {
+  Object.entries(value).forEach(([key, item]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(item)) {
+      flattenObject(item, path, target);
+    } else if (Array.isArray(item)) {
+      target[path] = item.every(v => !isPlainObject(v) && !Array.isArray(v)) ? item.join(', ') : JSON.stringify(item);
+    } else {
+      target[path] = item === null || item === undefined ? '' : item;
+    }
+  });
+  return target;
+};
+
+const sheetFromJsonArray = (name: string, items: unknown[]): ExcelSheet => {
+  if (items.every(Array.isArray)) return parseSheetRows(name, items as any[][]);
+
+  const rows = items.map(item => (isPlainObject(item) ? flattenObject(item) : { Value: item ?? '' }));
+  const headers: string[] = [];
+  rows.forEach(row => Object.keys(row).forEach(key => {
+    if (!headers.includes(key)) headers.push(key);
+  }));
+  // Every row carries every column, like the Excel parser produces
+  const filled = rows.map(row => {
+    const complete: Record<string, any> = {};
+    headers.forEach(header => { complete[header] = row[header] ?? ''; });
+    return complete;
+  });
+  return { name, headers, rows: filled, keyValues: {} };
+};
+
+/**
+ * JSON input: a top-level array is one sheet; for an object, every array of
+ * records becomes its own sheet and the remaining fields become key/value pairs.
+ */
+export const normalizeJsonData = (fileName: string, json: unknown): ExcelData => {
+  const baseName = getBaseName(fileName);
+  if (Array.isArray(json)) {
+    return buildExcelData(fileName, [sheetFromJsonArray(baseName, json)], { format: 'json' });
+  }
+  if (!isPlainObject(json)) {
+    throw new Error('JSON data must be an array of records or an object.');
+  }
+
+  const sheets: ExcelSheet[] = [];
+  const scalars: Record<string, unknown> = {};
+  Object.entries(json).forEach(([key, value]) => {
+    if (Array.isArray(value) && value.length > 0 && value.some(item => isPlainObject(item) || Array.isArray(item))) {
+      sheets.push(sheetFromJsonArray(key, value));
+    } else {
+      scalars[key] = value;
+    }
+  });
+
+  const keyValues: Record<string, string> = {};
+  Object.entries(flattenObject(scalars)).forEach(([key, value]) => {
+    const text = String(value).trim();
+    if (text) keyValues[key] = text;
+  });
+
+  // Key/value pairs live on the first sheet, or on their own when there are no records
+  if (sheets.length === 0) sheets.push({ name: baseName, headers: [], rows: [], keyValues });
+  else sheets[0] = { ...sheets[0], keyValues: { ...keyValues, ...sheets[0].keyValues } };
+
+  return buildExcelData(fileName, sheets, { format: 'json' });
+};
+
+const parseJsonFile = async (file: File): Promise<ExcelData> => {
+  const { text, encoding } = decodeTextBuffer(await file.arrayBuffer());
+  let json: unknown;
+  try {
+    json = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch (e: any) {
+    throw new Error(`Invalid JSON: ${e.message}`);
+  }
+  const data = normalizeJsonData(file.name, json);
+  return { ...data, source: { format: 'json', encoding } };
+};
+
+export const DATA_FILE_ACCEPT = '.xlsx,.xls,.csv,.tsv,.json';
+
+/**
+ * Load any supported data source (Excel, CSV, TSV, JSON) into ExcelData and
+ * run the cleaning pass; its changes stay on `data.cleaning` for the user to
+ * accept or revert.
+ */
+export const parseDataFile = async (file: File): Promise<ExcelData> => {
+  const ext = getFileExtension(file.name);
+  if (ext === 'csv' || ext === 'tsv') return cleanExcelData(await parseDelimitedFile(file));
+  if (ext === 'json') return cleanExcelData(await parseJsonFile(file));
+  return cleanExcelData(await parseExcelFile(file));
+};
+
 const truncateLines = (lines: string[], maxLines: number) => {
   if (lines.length <= maxLines) return lines;
   return [...lines.slice(0, maxLines), `... (${lines.length - maxLines} more lines truncated)`];
@@ -261,10 +593,32 @@ export const extractTextFromDocx = async (file: File): Promise<string> => {
 };
 
 export const extractTextFromPlainText = async (file: File): Promise<string> => {
-  return await file.text();
+  return decodeTextBuffer(await file.arrayBuffer()).text;
+};
+
+// Text for auto-mapping from CSV/TSV/JSON data: key/value pairs, then "Header: value" rows
+const extractTextFromDataFile = async (file: File): Promise<string> => {
+  const data = await parseDataFile(file);
+  const lines: string[] = Object.entries(data.keyValues || {}).map(([key, value]) => `${key}: ${value}`);
+  (data.sheets || []).forEach(sheet => {
+    if (sheet.rows.length === 0) return;
+    lines.push(`Sheet: ${sheet.name}`);
+    sheet.rows.slice(0, 100).forEach(row => {
+      const pairs = sheet.headers.slice(0, 30)
+        .map(header => [header, String(row[header] ?? '').trim()])
+        .filter(([, value]) => value)
+        .map(([header, value]) => `${header}: ${value}`);
+      if (pairs.length > 0) lines.push(pairs.join(' | '));
+    });
+  });
+  return truncateLines(lines, 300).join('\n');
 };
 
 export const extractTextFromSpreadsheet = async (file: File): Promise<string> => {
+  if (['csv', 'tsv', 'json'].includes(getFileExtension(file.name))) {
+    return extractTextFromDataFile(file);
+  }
+
   const arrayBuffer = await file.arrayBuffer();
   const workbook = XLSX.read(arrayBuffer, { type: 'array', raw: true });
   const sheetNames = workbook.SheetNames.slice(0, 1);
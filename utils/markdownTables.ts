@@ -0,0 +1,110 @@
+/**
+ * Detection and regeneration of the Markdown tables in a template, so each
+ * table can be bound to its own data rows and column mapping.
+ */
+
+export interface MarkdownTable {
+  key: string; // Stable while the table is repopulated: section heading + position within the section
+  section: string; // Nearest heading above the table
+  headers: string[];
+  startLine: number; // Header row
+  endLine: number; // First line after the table
+}
+
+const HEADING_PATTERN = /^#{1,6}\s+(.+?)\s*#*$/;
+
+const isTableLine = (line: string) => line.startsWith('|') && line.endsWith('|');
+
+// Loop tags on their own line between rows, e.g. a single `{{#each Ingredients}}` row template
+const EACH_OPEN_PATTERN = /^\{\{\s*#each\s[^}]*\}\}$/;
+const EACH_CLOSE_PATTERN = /^\{\{\s*\/each\s*\}\}$/;
+
+const splitTableRow = (line: string) => {
+  // Preserve empty column names; only drop the edges created by the leading/trailing |
+  const parts = line.split('|').map(s => s.trim());
+  if (parts.length > 0 && parts[0] === '') parts.shift();
+  if (parts.length > 0 && parts[parts.length - 1] === '') parts.pop();
+  return parts;
+};
+
+/**
+ * Every table in the content: a `| Header |` row followed by a `| --- |` separator.
+ * `{{#each}}…{{/each}}` blocks among the rows belong to the table, so
+ * replacing it also replaces the loop.
+ */
+export const findMarkdownTables = (content: string): MarkdownTable[] => {
+  const lines = content.split('\n');
+  const tables: MarkdownTable[] = [];
+  const perSection = new Map<string, number>();
+  let section = 'Untitled';
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      section = heading[1].replace(/[*_`]/g, '').trim();
+      continue;
+    }
+
+    const nextLine = (lines[i + 1] || '').trim();
+    if (!isTableLine(line) || !isTableLine(nextLine) || !nextLine.includes('---')) continue;
+
+    let endLine = lines.length;
+    const openLoops: number[] = [];
+    for (let j = i + 2; j < lines.length; j++) {
+      const row = lines[j].trim();
+      if (EACH_OPEN_PATTERN.test(row)) {
+        openLoops.push(j);
+      } else if (EACH_CLOSE_PATTERN.test(row) && openLoops.length > 0) {
+        openLoops.pop();
+      } else if (!row.startsWith('|')) {
+        // A loop still open here wraps more than table rows, so the table ends before it
+        endLine = openLoops.length > 0 ? openLoops[0] : j;
+        break;
+      }
+    }
+    if (endLine === lines.length && openLoops.length > 0) endLine = openLoops[0];
+
+    const position = perSection.get(section) ?? 0;
+    perSection.set(section, position + 1);
+    tables.push({ key: `${section}#${position}`, section, headers: splitTableRow(line), startLine: i, endLine });
+    i = endLine - 1;
+  }
+
+  return tables;
+};
+
+const formatCell = (value: unknown) => {
+  if (value === undefined || value === null) return '';
+  // Pipes and line breaks would split the Markdown row
+  return String(value).replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+};
+
+/**
+ * Build a table with the given headers; each header reads the mapped column
+ * of every row (unmapped headers stay empty).
+ */
+export const buildMarkdownTable = (headers: string[], rows: Record<string, any>[], columnMapping: Record<string, string>) => {
+  const headerRow = `| ${headers.join(' | ')} |`;
+  const separatorRow = `| ${headers.map(() => '---').join(' | ')} |`;
+  const dataRows = rows.map(row => `| ${headers.map(header => {
+    const column = columnMapping[header];
+    return column ? formatCell(row[column]) : '';
+  }).join(' | ')} |`);
+  return [headerRow, separatorRow, ...dataRows].join('\n');
+};
+
+/**
+ * Replace tables (by key) with new Markdown. Tables are replaced bottom-up so
+ * line numbers of the remaining tables stay valid.
+ */
+export const replaceMarkdownTables = (content: string, replacements: Record<string, string>) => {
+  const lines = content.split('\n');
+  findMarkdownTables(content)
+    .filter(table => replacements[table.key] !== undefined)
+    .reverse()
+    .forEach(table => {
+      lines.splice(table.startLine, table.endLine - table.startLine, replacements[table.key]);
+    });
+  return lines.join('\n');
+};
@@ -0,0 +1,32 @@
+import regularFontUrl from '@expo-google-fonts/noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf?url';
+import boldFontUrl from '@expo-google-fonts/noto-sans-sc/700Bold/NotoSansSC_700Bold.ttf?url';
+import type { PdfFontData } from './pdfRenderer';
+
+/**
+ * Browser loader for the PDF body fonts (Noto Sans SC, bundled as static
+ * assets). The files are large, so they are fetched on the first PDF export
+ * and kept for the rest of the session.
+ */
+
+let fontsPromise: Promise<PdfFontData> | null = null;
+
+const fetchFont = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`PDF 字体加载失败 (${response.status})`);
+  }
+  return response.arrayBuffer();
+};
+
+export const loadPdfFonts = (): Promise<PdfFontData> => {
+  if (!fontsPromise) {
+    fontsPromise = Promise.all([fetchFont(regularFontUrl), fetchFont(boldFontUrl)])
+      .then(([regular, bold]) => ({ regular, bold }))
+      .catch(error => {
+        // Allow a retry on the next export
+        fontsPromise = null;
+        throw error;
+      });
+  }
+  return fontsPromise;
+};
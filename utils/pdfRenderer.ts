@@ -0,0 +1,507 @@
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import fontkit from '@pdf-lib/fontkit';
+import { marked, Token, Tokens } from 'marked';
+import { InlineRun, inlineRuns, decodeEntities } from './reportRenderer.js';
+
+/**
+ * Deterministic Markdown -> PDF renderer built on pdf-lib.
+ * Runs both in the browser and in Node, so batch generation and serverless
+ * routes produce identical documents without going through a print dialog.
+ */
+
+// A4 in PDF points, 20mm margins (matches the HTML export)
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56.69;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const BODY_SIZE = 10;
+const LINE_HEIGHT = 1.45;
+const HEADING_SIZES: Record<number, number> = { 1: 18, 2: 14, 3: 12, 4: 11, 5: 10, 6: 10 };
+const CELL_PADDING = 4;
+const LIST_INDENT = 14;
+
+const TEXT_COLOR = rgb(0, 0, 0);
+const MUTED_COLOR = rgb(0.42, 0.45, 0.49);
+const BORDER_COLOR = rgb(0.55, 0.55, 0.55);
+
+/**
+ * TrueType/OpenType bytes for the body faces. The standard PDF fonts only
+ * encode WinAnsi, so reports embed a CJK-capable family (subset per document).
+ * Browser and Node callers load the files themselves, see pdfFonts.ts and
+ * api/render-pdf.ts.
+ */
+export interface PdfFontData {
+  regular: Uint8Array | ArrayBuffer;
+  bold: Uint8Array | ArrayBuffer;
+}
+
+interface FontSet {
+  regular: PDFFont;
+  bold: PDFFont;
+  italic: PDFFont;
+  boldItalic: PDFFont;
+  mono: PDFFont;
+}
+
+interface LineFragment {
+  text: string;
+  font: PDFFont;
+  width: number;
+}
+
+interface LaidOutLine {
+  fragments: LineFragment[];
+  width: number;
+}
+
+export const CURRENT_PAGE_TOKEN = '{{CurrentPage}}';
+export const TOTAL_PAGES_TOKEN = '{{TotalPages}}';
+export const DEFAULT_PDF_FOOTER = `Page ${CURRENT_PAGE_TOKEN} of ${TOTAL_PAGES_TOKEN}`;
+
+export interface PdfRenderOptions {
+  title?: string;
+  // Running header/footer drawn in the page margins; page tokens are resolved per page
+  header?: string;
+  footer?: string | null;
+}
+
+// Characters the embedded font may lack that have a readable equivalent
+const CHARACTER_FALLBACKS: Record<string, string> = {
+  '≤': '<=',
+  '≥': '>=',
+  '℃': '°C',
+  '\t': '    ',
+};
+
+const createSanitizer = (font: PDFFont) => {
+  const supported = new Set(font.getCharacterSet());
+  return (text: string) =>
+    Array.from(text)
+      .map(ch => (supported.has(ch.codePointAt(0)!) ? ch : CHARACTER_FALLBACKS[ch] ?? ch))
+      .join('');
+};
+
+// Line-break opportunities besides whitespace: CJK text has no spaces between words
+const BREAK_PATTERN = /(\s+|[\u2E80-\u9FFF\uAC00-\uD7AF\uF900-\uFAFF\uFF00-\uFFEF])/;
+
+class PdfLayout {
+  private doc: PDFDocument;
+  private fonts: FontSet;
+  private sanitize: (text: string) => string;
+  private characterSets = new Map<PDFFont, Set<number>>();
+  private page!: PDFPage;
+  private y = 0;
+  private titleHeadingCount = 0;
+  private totalPages: number;
+
+  constructor(doc: PDFDocument, fonts: FontSet, totalPages: number) {
+    this.doc = doc;
+    this.fonts = fonts;
+    this.totalPages = totalPages;
+    this.sanitize = createSanitizer(fonts.regular);
+    this.addPage();
+  }
+
+  /**
+   * Resolve page tokens. {{TotalPages}} comes from the previous layout pass;
+   * {{CurrentPage}} is measured as a total-width number and filled at draw time.
+   */
+  private resolvePageTokens(text: string, currentPage?: number) {
+    const total = String(this.totalPages);
+    return text
+      .split(TOTAL_PAGES_TOKEN).join(total)
+      .split(CURRENT_PAGE_TOKEN).join(currentPage === undefined ? total : String(currentPage));
+  }
+
+  private canEncode(font: PDFFont, text: string) {
+    if (!this.characterSets.has(font)) this.characterSets.set(font, new Set(font.getCharacterSet()));
+    const supported = this.characterSets.get(font)!;
+    return Array.from(text).every(ch => ch === '\n' || supported.has(ch.codePointAt(0)!));
+  }
+
+  private measure(text: string, font: PDFFont, size: number) {
+    return font.widthOfTextAtSize(this.resolvePageTokens(text), size);
+  }
+
+  private addPage() {
+    this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  private ensureSpace(height: number) {
+    const atTop = this.y === PAGE_HEIGHT - MARGIN;
+    if (!atTop && this.y - height < MARGIN) {
+      this.addPage();
+    }
+  }
+
+  private gap(height: number) {
+    if (this.y === PAGE_HEIGHT - MARGIN) return;
+    this.y -= height;
+  }
+
+  private fontFor(run: InlineRun): PDFFont {
+    // Courier only covers WinAnsi; code spans with other characters use the body font
+    if (run.code) return this.canEncode(this.fonts.mono, this.sanitize(run.text)) ? this.fonts.mono : this.fonts.regular;
+    if (run.bold && run.italic) return this.fonts.boldItalic;
+    if (run.bold) return this.fonts.bold;
+    if (run.italic) return this.fonts.italic;
+    return this.fonts.regular;
+  }
+
+  /**
+   * Greedy word wrap of styled runs into lines no wider than maxWidth.
+   */
+  private wrapRuns(runs: InlineRun[], size: number, maxWidth: number): LaidOutLine[] {
+    const lines: LaidOutLine[] = [];
+    let current: LaidOutLine = { fragments: [], width: 0 };
+
+    const pushLine = () => {
+      // Drop trailing whitespace so centered/right text lines up
+      const last = current.fragments[current.fragments.length - 1];
+      if (last) {
+        const trimmed = last.text.replace(/\s+$/, '');
+        const trimmedWidth = this.measure(trimmed, last.font, size);
+        current.width -= last.width - trimmedWidth;
+        last.text = trimmed;
+        last.width = trimmedWidth;
+        if (!trimmed) current.fragments.pop();
+      }
+      lines.push(current);
+      current = { fragments: [], width: 0 };
+    };
+
+    const appendPiece = (text: string, font: PDFFont) => {
+      const width = this.measure(text, font, size);
+      const prev = current.fragments[current.fragments.length - 1];
+      if (prev && prev.font === font) {
+        prev.text += text;
+        prev.width += width;
+      } else {
+        current.fragments.push({ text, font, width });
+      }
+      current.width += width;
+    };
+
+    runs.forEach(run => {
+      const font = this.fontFor(run);
+      const segments = this.sanitize(run.text).split('\n');
+
+      segments.forEach((segment, segIdx) => {
+        if (segIdx > 0) pushLine();
+
+        segment.split(BREAK_PATTERN).forEach(word => {
+          if (!word) return;
+          const isSpace = /^\s+$/.test(word);
+          if (isSpace && current.fragments.length === 0) return;
+
+          const width = this.measure(word, font, size);
+          if (current.width + width <= maxWidth || isSpace) {
+            appendPiece(isSpace ? ' ' : word, font);
+            return;
+          }
+
+          if (current.fragments.length > 0) pushLine();
+
+          if (width <= maxWidth) {
+            appendPiece(word, font);
+            return;
+          }
+
+          // Word longer than the line: break it by characters
+          let chunk = '';
+          Array.from(word).forEach(ch => {
+            if (this.measure(chunk + ch, font, size) > maxWidth && chunk) {
+              appendPiece(chunk, font);
+              pushLine();
+              chunk = '';
+            }
+            chunk += ch;
+          });
+          if (chunk) appendPiece(chunk, font);
+        });
+      });
+    });
+
+    if (current.fragments.length > 0 || lines.length === 0) pushLine();
+    return lines;
+  }
+
+  private drawLine(line: LaidOutLine, x: number, baseline: number, size: number, color = TEXT_COLOR) {
+    const pageNumber = this.doc.getPageCount();
+    let cursor = x;
+    line.fragments.forEach(fragment => {
+      const text = this.resolvePageTokens(fragment.text, pageNumber);
+      this.page.drawText(text, { x: cursor, y: baseline, size, font: fragment.font, color });
+      cursor += fragment.font.widthOfTextAtSize(text, size);
+    });
+  }
+
+  private textBlock(
+    runs: InlineRun[],
+    options: { size?: number; indent?: number; align?: 'left' | 'center'; color?: typeof TEXT_COLOR; prefix?: string } = {}
+  ) {
+    const size = options.size ?? BODY_SIZE;
+    const indent = options.indent ?? 0;
+    const lineHeight = size * LINE_HEIGHT;
+    const maxWidth = CONTENT_WIDTH - indent;
+    const lines = this.wrapRuns(runs, size, maxWidth);
+
+    lines.forEach((line, idx) => {
+      this.ensureSpace(lineHeight);
+      const baseline = this.y - size;
+      const x = options.align === 'center'
+        ? MARGIN + indent + Math.max(0, (maxWidth - line.width) / 2)
+        : MARGIN + indent;
+
+      if (idx === 0 && options.prefix) {
+        const prefix = this.sanitize(options.prefix);
+        const prefixWidth = this.fonts.regular.widthOfTextAtSize(prefix, size);
+        this.page.drawText(prefix, { x: x - prefixWidth - 3, y: baseline, size, font: this.fonts.regular, color: options.color ?? TEXT_COLOR });
+      }
+
+      this.drawLine(line, x, baseline, size, options.color);
+      this.y -= lineHeight;
+    });
+  }
+
+  private heading(token: Tokens.Heading) {
+    const size = HEADING_SIZES[token.depth] ?? BODY_SIZE;
+    // The first three H1 lines form the centered title block
+    const centered = token.depth === 1 && this.titleHeadingCount < 3;
+    if (token.depth === 1) this.titleHeadingCount += 1;
+
+    this.gap(size * 0.6);
+    // Keep headings with at least two lines of the following block
+    this.ensureSpace(size * LINE_HEIGHT + BODY_SIZE * LINE_HEIGHT * 2);
+    this.textBlock(inlineRuns(token.tokens, { bold: true }), { size, align: centered ? 'center' : 'left' });
+    this.gap(size * 0.3);
+  }
+
+  private list(token: Tokens.List, indent: number) {
+    const start = typeof token.start === 'number' ? token.start : 1;
+    token.items.forEach((item, idx) => {
+      const prefix = token.ordered ? `${start + idx}.` : '•';
+      let prefixed = false;
+      item.tokens.forEach(child => {
+        if (child.type === 'list') {
+          this.list(child as Tokens.List, indent + LIST_INDENT);
+          return;
+        }
+        const runs = inlineRuns((child as Tokens.Generic).tokens);
+        if (runs.length === 0 && !(child as Tokens.Generic).text) return;
+        this.textBlock(runs.length > 0 ? runs : [{ text: decodeEntities((child as Tokens.Generic).text) }], {
+          indent: indent + LIST_INDENT,
+          prefix: prefixed ? undefined : prefix
+        });
+        prefixed = true;
+      });
+    });
+    this.gap(BODY_SIZE * 0.5);
+  }
+
+  private table(token: Tokens.Table) {
+    const size = BODY_SIZE - 1;
+    const lineHeight = size * LINE_HEIGHT;
+    const columnCount = token.header.length;
+    if (columnCount === 0) return;
+
+    // Size columns by their natural width, then scale to the content width
+    const headerRuns = token.header.map(cell => inlineRuns(cell.tokens, { bold: true }));
+    const bodyRuns = token.rows.map(row => row.map(cell => inlineRuns(cell.tokens)));
+    const natural = headerRuns.map((runs, col) => {
+      const widths = [runs, ...bodyRuns.map(r => r[col] || [])].map(cellRuns =>
+        cellRuns.reduce((sum, run) => sum + this.measure(this.sanitize(run.text), this.fontFor(run), size), 0)
+      );
+      return Math.max(30, ...widths) + CELL_PADDING * 2;
+    });
+    const naturalTotal = natural.reduce((a, b) => a + b, 0);
+    const minWidth = CONTENT_WIDTH / columnCount / 2;
+    let widths = natural.map(w => Math.max(minWidth, (w / naturalTotal) * CONTENT_WIDTH));
+    const scale = CONTENT_WIDTH / widths.reduce((a, b) => a + b, 0);
+    widths = widths.map(w => w * scale);
+
+    const layoutRow = (cells: InlineRun[][]) => {
+      const cellLines = widths.map((width, col) => this.wrapRuns(cells[col] || [], size, width - CELL_PADDING * 2));
+      const height = Math.max(...cellLines.map(lines => lines.length)) * lineHeight + CELL_PADDING * 2;
+      return { cellLines, height };
+    };
+
+    const drawRow = (row: ReturnType<typeof layoutRow>, aligns: Tokens.Table['align']) => {
+      const top = this.y;
+      let x = MARGIN;
+      row.cellLines.forEach((lines, col) => {
+        const width = widths[col];
+        this.page.drawRectangle({
+          x,
+          y: top - row.height,
+          width,
+          height: row.height,
+          borderColor: BORDER_COLOR,
+          borderWidth: 0.5
+        });
+        lines.forEach((line, lineIdx) => {
+          const inner = width - CELL_PADDING * 2;
+          const align = aligns[col];
+          const offset = align === 'center' ? (inner - line.width) / 2 : align === 'right' ? inner - line.width : 0;
+          const baseline = top - CELL_PADDING - size - lineIdx * lineHeight;
+          this.drawLine(line, x + CELL_PADDING + Math.max(0, offset), baseline, size);
+        });
+        x += width;
+      });
+      this.y -= row.height;
+    };
+
+    const header = layoutRow(headerRuns);
+    this.gap(BODY_SIZE * 0.3);
+    this.ensureSpace(header.height + lineHeight + CELL_PADDING * 2);
+    drawRow(header, token.align);
+
+    bodyRuns.forEach(cells => {
+      const row = layoutRow(cells);
+      if (this.y - row.height < MARGIN) {
+        this.addPage();
+        // Repeat the header row on continuation pages
+        drawRow(header, token.align);
+      }
+      drawRow(row, token.align);
+    });
+    this.gap(BODY_SIZE);
+  }
+
+  private rule() {
+    this.gap(BODY_SIZE * 0.5);
+    this.ensureSpace(4);
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+      thickness: 1.5,
+      color: TEXT_COLOR
+    });
+    this.y -= 4;
+    this.gap(BODY_SIZE * 0.5);
+  }
+
+  private code(token: Tokens.Code) {
+    this.textBlock([{ text: token.text, code: true }], { size: BODY_SIZE - 1, indent: 8 });
+    this.gap(BODY_SIZE);
+  }
+
+  /**
+   * Draw running header/footer text on every page once layout is complete.
+   */
+  decoratePages(header: string | undefined, footer: string | null) {
+    const size = BODY_SIZE - 2;
+    const font = this.fonts.regular;
+    const pages = this.doc.getPages();
+
+    pages.forEach((page, idx) => {
+      const draw = (template: string, y: number, align: 'center' | 'right') => {
+        const text = this.sanitize(template)
+          .split(TOTAL_PAGES_TOKEN).join(String(pages.length))
+          .split(CURRENT_PAGE_TOKEN).join(String(idx + 1));
+        const width = font.widthOfTextAtSize(text, size);
+        const x = align === 'center' ? (PAGE_WIDTH - width) / 2 : PAGE_WIDTH - MARGIN - width;
+        page.drawText(text, { x, y, size, font, color: MUTED_COLOR });
+      };
+
+      if (header) draw(header, PAGE_HEIGHT - MARGIN / 2 - size, 'right');
+      if (footer) draw(footer, MARGIN / 2, 'center');
+    });
+  }
+
+  renderTokens(tokens: Token[], indent = 0) {
+    tokens.forEach(token => {
+      switch (token.type) {
+        case 'heading':
+          this.heading(token as Tokens.Heading);
+          break;
+        case 'paragraph':
+          this.textBlock(inlineRuns((token as Tokens.Paragraph).tokens), { indent });
+          this.gap(BODY_SIZE * 0.8);
+          break;
+        case 'text': {
+          const runs = inlineRuns((token as Tokens.Text).tokens);
+          this.textBlock(runs.length > 0 ? runs : [{ text: decodeEntities((token as Tokens.Text).text) }], { indent });
+          break;
+        }
+        case 'list':
+          this.list(token as Tokens.List, indent);
+          break;
+        case 'table':
+          this.table(token as Tokens.Table);
+          break;
+        case 'hr':
+          this.rule();
+          break;
+        case 'code':
+          this.code(token as Tokens.Code);
+          break;
+        case 'blockquote':
+          (token as Tokens.Blockquote).tokens.forEach(child => {
+            const runs = inlineRuns((child as Tokens.Generic).tokens);
+            this.textBlock(runs, { indent: indent + 12, color: MUTED_COLOR });
+          });
+          this.gap(BODY_SIZE * 0.8);
+          break;
+        case 'html':
+          this.textBlock(inlineRuns([token]), { indent });
+          break;
+        default:
+          break;
+      }
+    });
+  }
+}
+
+const createDocument = async (fontData: PdfFontData, options: PdfRenderOptions) => {
+  const doc = await PDFDocument.create();
+  doc.registerFontkit(fontkit);
+  if (options.title) doc.setTitle(options.title);
+  doc.setCreator('SmartDoc AI');
+
+  const regular = await doc.embedFont(fontData.regular, { subset: true });
+  const bold = await doc.embedFont(fontData.bold, { subset: true });
+  // The embedded family has no italic faces; emphasis keeps the upright glyphs
+  const fonts: FontSet = {
+    regular,
+    bold,
+    italic: regular,
+    boldItalic: bold,
+    mono: await doc.embedFont(StandardFonts.Courier)
+  };
+
+  return { doc, fonts };
+};
+
+// Layout passes before giving up on a stable page count
+const MAX_LAYOUT_PASSES = 3;
+
+/**
+ * Render filled report Markdown to a PDF file.
+ * {{CurrentPage}} / {{TotalPages}} left in the Markdown are resolved against
+ * the real pagination: the document is laid out until the page count is stable.
+ */
+export const renderMarkdownToPdf = async (
+  markdown: string,
+  fontData: PdfFontData,
+  options: PdfRenderOptions = {}
+): Promise<Uint8Array> => {
+  const tokens = marked.lexer(markdown, { gfm: true, breaks: true });
+  const footer = options.footer === undefined ? DEFAULT_PDF_FOOTER : options.footer;
+
+  let totalPages = 1;
+  for (let pass = 1; ; pass++) {
+    const { doc, fonts } = await createDocument(fontData, options);
+    const layout = new PdfLayout(doc, fonts, totalPages);
+    layout.renderTokens(tokens);
+
+    const pageCount = doc.getPageCount();
+    if (pageCount === totalPages || pass >= MAX_LAYOUT_PASSES) {
+      layout.decoratePages(options.header, footer);
+      return doc.save();
+    }
+    totalPages = pageCount;
+  }
+};
\ No newline at end of file
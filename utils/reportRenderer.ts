@@ -0,0 +1,441 @@
+import { marked, Token, Tokens } from 'marked';
+import { renderTemplate, TemplateRow } from './templateEngine.js';
+import { parsePlaceholder } from './templateFilters.js';
+
+/**
+ * Shared report rendering helpers.
+ * Used by the workspace export and by batch generation so that every output
+ * format goes through the same Markdown normalization.
+ */
+
+// Page variables are resolved at render time, never filled in by the user
+export const AUTO_VARIABLES = ['TotalPages', 'CurrentPage'];
+
+export const markdownStyles = `
+  .markdown-body {
+    box-sizing: border-box;
+    min-width: 200px;
+    max-width: 980px;
+    margin: 0 auto;
+    padding: 20mm;
+    font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif, "Apple Color Emoji", "Segoe UI Emoji";
+    font-size: 14px;
+    line-height: 1.7;
+    color: #000;
+    background-color: #fff;
+    word-wrap: break-word;
+  }
+  .markdown-body h1 {
+    padding-bottom: 0;
+    font-size: 2em;
+    border-bottom: none;
+    margin-top: 24px;
+    margin-bottom: 16px;
+    font-weight: 600;
+    line-height: 1.25;
+    color: #000;
+  }
+  .markdown-body h2 {
+    padding-bottom: 0;
+    font-size: 1.5em;
+    border-bottom: none;
+    margin-top: 24px;
+    margin-bottom: 16px;
+    font-weight: 600;
+    line-height: 1.25;
+    color: #000;
+  }
+  .markdown-body h3 {
+    font-size: 1.25em;
+    margin-top: 24px;
+    margin-bottom: 16px;
+    font-weight: 600;
+    line-height: 1.25;
+    color: #000;
+  }
+  .markdown-body h4 {
+    font-size: 1em;
+    margin-top: 24px;
+    margin-bottom: 16px;
+    font-weight: 600;
+    line-height: 1.25;
+    color: #000;
+  }
+  .markdown-body p {
+    margin-top: 0;
+    margin-bottom: 16px;
+    color: #000;
+  }
+  .markdown-body blockquote {
+    padding: 0 1em;
+    color: #6a737d;
+    border-left: 0.25em solid #dfe2e5;
+    margin: 0 0 16px 0;
+  }
+  .markdown-body ul, .markdown-body ol {
+    padding-left: 2em;
+    margin-top: 0;
+    margin-bottom: 16px;
+  }
+  .markdown-body table {
+    border-spacing: 0;
+    border-collapse: collapse;
+    display: table;
+    width: 100%;
+    max-width: 100%;
+    margin-top: 0;
+    margin-bottom: 16px;
+  }
+  .markdown-body table tr {
+    background-color: #fff;
+    border-top: 1px solid #000;
+  }
+  .markdown-body table tr:nth-child(2n) {
+    background-color: #fff;
+  }
+  .markdown-body table th, 
+  .markdown-body table td {
+    padding: 6px 13px;
+    border: 1px solid #dfe2e5;
+  }
+  .markdown-body table th {
+    font-weight: 600;
+    background-color: #fff;
+    color: #000;
+  }
+  .markdown-body code {
+    padding: 0.2em 0.4em;
+    margin: 0;
+    font-size: 85%;
+    background-color: #fff;
+    border-radius: 3px;
+    font-family: SFMono-Regular, Consolas, "Liberation Mono", Menlo, monospace;
+    color: #000;
+  }
+  .markdown-body pre {
+    padding: 16px;
+    overflow: auto;
+    font-size: 85%;
+    line-height: 1.45;
+    background-color: #fff;
+    border-radius: 3px;
+    margin-bottom: 16px;
+    color: #000;
+  }
+  .markdown-body pre code {
+    background-color: transparent;
+    padding: 0;
+  }
+  .markdown-body hr {
+    height: 0.25em;
+    padding: 0;
+    margin: 24px 0;
+    background-color: #000;
+    border: 0;
+  }
+  .markdown-body img {
+    max-width: 100%;
+    box-sizing: content-box;
+    background-color: #fff;
+  }
+  .markdown-body h1:nth-of-type(-n+3) {
+    text-align: center;
+    margin-top: 0;
+  }
+  .markdown-body .preview-variable {
+    border-radius: 3px;
+    padding: 0 2px;
+    cursor: pointer;
+  }
+  .markdown-body .preview-variable-filled {
+    background-color: #dcfce7;
+  }
+  .markdown-body .preview-variable-no-data {
+    background-color: #fef3c7;
+    color: #92400e;
+  }
+  .markdown-body .preview-variable-missing {
+    background-color: #fee2e2;
+    color: #b91c1c;
+  }
+  .markdown-body .preview-placeholder {
+    background-color: #eff6ff;
+    color: #1d4ed8;
+    border-radius: 3px;
+    cursor: pointer;
+  }
+`;
+
+export const normalizeReportTitle = (content: string) => {
+  const placeholderSingleLine = /^#\s*\{\{CompanyName\}\}[^\n]*Material\s+Safety\s+Data\s+Sheet\s*\(MSDS\)[^\n]*$/m;
+  const placeholderTwoLine = /^#\s*\{\{CompanyName\}\}\s*\n\s*(?:\*\*|__)?\s*Material\s+Safety\s+Data\s+Sheet\s*\(MSDS\)\s*(?:\*\*|__)?\s*$/m;
+  const genericSingleLine = /^#\s*(.+?)\s+Material\s+Safety\s+Data\s+Sheet\s*\(MSDS\)\s*$/m;
+  const genericTwoLine = /^#\s*(.+?)\s*\n\s*(?:\*\*|__)?\s*Material\s+Safety\s+Data\s+Sheet\s*\(MSDS\)\s*(?:\*\*|__)?\s*$/m;
+
+  const placeholderReplacement = (
+    `# {{CompanyName}}\n` +
+    `# Material Safety Data Sheet\n` +
+    `# (MSDS)`
+  );
+
+  if (placeholderSingleLine.test(content)) {
+    return content.replace(placeholderSingleLine, placeholderReplacement);
+  }
+
+  if (placeholderTwoLine.test(content)) {
+    return content.replace(placeholderTwoLine, placeholderReplacement);
+  }
+
+  if (genericSingleLine.test(content)) {
+    return content.replace(genericSingleLine, (_, company) => (
+      `# ${company.trim()}\n` +
+      `# Material Safety Data Sheet\n` +
+      `# (MSDS)`
+    ));
+  }
+
+  if (genericTwoLine.test(content)) {
+    return content.replace(genericTwoLine, (_, company) => (
+      `# ${company.trim()}\n` +
+      `# Material Safety Data Sheet\n` +
+      `# (MSDS)`
+    ));
+  }
+
+  return content;
+};
+
+export const normalizeSectionBullets = (content: string) => {
+  const lines = content.split('\n');
+  let inSection = false;
+  let inCodeBlock = false;
+
+  const normalized = lines.map(line => {
+    const trimmed = line.trim();
+
+    if (trimmed.startsWith('```')) {
+      inCodeBlock = !inCodeBlock;
+      return line;
+    }
+
+    if (!inCodeBlock && /^#{1,3}\s+Section\s+\d+/i.test(trimmed)) {
+      inSection = true;
+      return line;
+    }
+
+    if (!inCodeBlock && /^#{1,3}\s+Section\s+\d+/i.test(trimmed) === false && /^#{1,3}\s+/.test(trimmed)) {
+      inSection = false;
+      return line;
+    }
+
+    if (!inCodeBlock && inSection) {
+      if (trimmed.startsWith('|') && trimmed.endsWith('|')) {
+        return line;
+      }
+      return line.replace(/^\s*[-*+]\s+/, '');
+    }
+
+    return line;
+  });
+
+  return normalized.join('\n');
+};
+
+export const normalizeInlineFields = (content: string) => {
+  // Insert line breaks before inline bold labels on the same line,
+  // but do NOT touch lines inside Markdown tables.
+  const lines = content.split('\n');
+  const normalized = lines.map(line => {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('|') && trimmed.endsWith('|')) {
+      return line;
+    }
+    const isListLine = /^([-*+]|\d+\.)\s+/.test(trimmed);
+    const isHeadingLine = /^#{1,6}\s+/.test(trimmed);
+    const isQuoteLine = /^>\s+/.test(trimmed);
+    if (isListLine || isHeadingLine || isQuoteLine) {
+      return line;
+    }
+    return line.replace(/([^\n])\s+(?=\*\*[^*]+?:\*\*)/g, '$1  \n');
+  });
+  return normalized.join('\n');
+};
+
+export const prepareReportMarkdown = (content: string) => {
+  return normalizeInlineFields(normalizeSectionBullets(normalizeReportTitle(content)));
+};
+
+/**
+ * Replace {{Variable}} placeholders with the given values and expand
+ * {{#if}} / {{#each}} blocks. Listed variables without a value become an
+ * empty string; placeholders not in `variables` are left as-is.
+ */
+export const fillTemplateVariables = (
+  content: string,
+  variables: string[],
+  values: Record<string, string>,
+  collections: Record<string, TemplateRow[]> = {}
+) => {
+  const scoped: Record<string, string> = {};
+  variables.forEach(v => {
+    scoped[v] = values[v] || '';
+  });
+  return renderTemplate(content, { values: scoped, collections });
+};
+
+export type PreviewVariableStatus = 'filled' | 'no-data' | 'missing';
+
+// Private-use characters survive Markdown rendering untouched
+const PREVIEW_MARK_PATTERN = /\uE000(\d+)\uE001/g;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Render the report with its values filled in for the preview pane. Each
+ * listed variable becomes a `<span data-variable>` whose class reflects
+ * whether it is filled, "No data" or still missing.
+ */
+export const renderFilledPreviewHtml = (
+  content: string,
+  variables: string[],
+  values: Record<string, string>,
+  collections: Record<string, TemplateRow[]> = {}
+) => {
+  const listed = new Set(variables);
+  const marks: { name: string; text: string; status: PreviewVariableStatus }[] = [];
+  const scoped: Record<string, string> = {};
+  variables.forEach(v => {
+    if (values[v]?.trim()) scoped[v] = values[v];
+  });
+
+  const markdown = renderTemplate(prepareReportMarkdown(content), {
+    values: scoped,
+    collections,
+    decorateVariable: (name, rendered) => {
+      if (!listed.has(name)) return rendered;
+      const value = (values[name] || '').trim();
+      const status: PreviewVariableStatus = !value ? 'missing' : value.toLowerCase() === 'no data' ? 'no-data' : 'filled';
+      marks.push({ name, text: rendered, status });
+      return `\uE000${marks.length - 1}\uE001`;
+    }
+  });
+
+  return markdownToHtml(markdown).replace(PREVIEW_MARK_PATTERN, (_, index) => {
+    const mark = marks[Number(index)];
+    return `<span class="preview-variable preview-variable-${mark.status}" data-variable="${escapeHtml(mark.name)}" title="${escapeHtml(mark.name)}">${escapeHtml(mark.text).replace(/\n/g, '<br>')}</span>`;
+  });
+};
+
+/**
+ * Wrap the placeholders of a rendered template in `<span data-variable>` so
+ * the preview can make them clickable. Block tags and placeholders inside
+ * HTML attributes are left alone.
+ */
+export const highlightPlaceholdersHtml = (html: string) =>
+  html
+    .split(/(<[^>]+>)/)
+    .map(part => part.startsWith('<') ? part : part.replace(/\{\{([^}]+)\}\}/g, (raw, tag: string) => {
+      const trimmed = decodeEntities(tag).trim();
+      if (/^[#/@]/.test(trimmed) || trimmed === 'else') return raw;
+      const { name } = parsePlaceholder(trimmed);
+      return `<span class="preview-placeholder" data-variable="${escapeHtml(name)}">${raw}</span>`;
+    }))
+    .join('');
+
+/**
+ * Heuristic page variables for text outputs (Markdown / HTML).
+ * Approx 3000 chars per A4 page for standard text size.
+ */
+export const resolvePageVariables = (content: string) => {
+  const totalChars = content.length;
+  const estimatedPages = Math.max(1, Math.ceil(totalChars / 3000)).toString();
+
+  return content
+    .split('{{TotalPages}}').join(estimatedPages)
+    .split('{{CurrentPage}}').join('1');
+};
+
+export const markdownToHtml = (markdown: string) => {
+  marked.setOptions({ breaks: true, gfm: true });
+  return marked.parse(markdown) as string;
+};
+
+/**
+ * Wrap rendered Markdown into a standalone, printable A4 HTML document.
+ */
+export const buildReportHtmlDocument = (markdown: string, title: string) => `
+<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <title>${title}</title>
+    <style>
+      @page { size: A4; margin: 0; }
+      html, body { margin: 0; padding: 0; background: #ffffff; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+      ${markdownStyles}
+      @media print { body { background: #ffffff; } }
+    </style>
+  </head>
+  <body>
+    <div class="markdown-body">${markdownToHtml(markdown)}</div>
+  </body>
+</html>
+`;
+
+/**
+ * Styled text run used by the document (PDF / DOCX) renderers.
+ */
+export interface InlineRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+}
+
+export const decodeEntities = (text: string) =>
+  text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+
+/**
+ * Flatten marked inline tokens into styled runs. Line breaks become '\n'.
+ */
+export const inlineRuns = (tokens: Token[] | undefined, style: Omit<InlineRun, 'text'> = {}): InlineRun[] => {
+  if (!tokens) return [];
+  const runs: InlineRun[] = [];
+
+  tokens.forEach(token => {
+    switch (token.type) {
+      case 'strong':
+        runs.push(...inlineRuns((token as Tokens.Strong).tokens, { ...style, bold: true }));
+        break;
+      case 'em':
+        runs.push(...inlineRuns((token as Tokens.Em).tokens, { ...style, italic: true }));
+        break;
+      case 'codespan':
+        runs.push({ ...style, text: decodeEntities((token as Tokens.Codespan).text), code: true });
+        break;
+      case 'br':
+        runs.push({ ...style, text: '\n' });
+        break;
+      case 'html':
+        runs.push({ ...style, text: token.raw.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]+>/g, '') });
+        break;
+      default: {
+        const nested = (token as Tokens.Generic).tokens;
+        if (nested && nested.length > 0) {
+          runs.push(...inlineRuns(nested, style));
+        } else {
+          runs.push({ ...style, text: decodeEntities((token as Tokens.Generic).text ?? token.raw ?? '') });
+        }
+      }
+    }
+  });
+
+  return runs;
+};
@@ -0,0 +1,199 @@
+import JSZip from 'jszip';
+import { ComputedVariable, Template, TemplateVersion } from '../types';
+import { extractTemplateVariables } from './templateEngine';
+
+/**
+ * Portable template bundles for sharing templates between users.
+ * A bundle is a JSON document; the ZIP variant wraps the same JSON plus a
+ * readable Markdown copy of every template.
+ */
+
+export const BUNDLE_FORMAT = 'smartdoc-template-bundle';
+export const BUNDLE_VERSION = 1;
+const BUNDLE_ENTRY = 'bundle.json';
+
+export type ImportConflictStrategy = 'skip' | 'overwrite' | 'duplicate';
+
+export interface TemplateBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: number;
+  templates: Template[];
+}
+
+export interface BundleExportOptions {
+  includeHistory?: boolean;
+}
+
+export interface ImportPlan {
+  templates: Template[]; // Templates to save, already adjusted for the chosen strategy
+  skipped: string[]; // Names of templates left untouched
+}
+
+const safeFileName = (name: string) =>
+  name.replace(/[\\/:*?"<>|\x00-\x1f]/g, '_').replace(/\s+/g, '_').replace(/^[_.]+|[_.]+$/g, '') || 'template';
+
+export const buildTemplateBundle = (templates: Template[], options: BundleExportOptions = {}): TemplateBundle => ({
+  format: BUNDLE_FORMAT,
+  version: BUNDLE_VERSION,
+  exportedAt: Date.now(),
+  templates: templates.map(template => {
+    if (options.includeHistory) return template;
+    const { versions: _versions, ...rest } = template;
+    return rest;
+  })
+});
+
+export const exportTemplatesAsJson = (templates: Template[], options: BundleExportOptions = {}): Blob => {
+  const bundle = buildTemplateBundle(templates, options);
+  return new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+};
+
+export const exportTemplatesAsZip = async (templates: Template[], options: BundleExportOptions = {}): Promise<Blob> => {
+  const zip = new JSZip();
+  zip.file(BUNDLE_ENTRY, JSON.stringify(buildTemplateBundle(templates, options), null, 2));
+
+  const usedNames = new Set<string>();
+  templates.forEach(template => {
+    let name = safeFileName(template.name);
+    for (let n = 2; usedNames.has(name); n++) name = `${safeFileName(template.name)}_${n}`;
+    usedNames.add(name);
+    zip.file(`markdown/${name}.md`, template.content);
+  });
+
+  return zip.generateAsync({ type: 'blob' });
+};
+
+const normalizeVersion = (raw: any): TemplateVersion | null => {
+  if (!raw || typeof raw.content !== 'string') return null;
+  return {
+    id: typeof raw.id === 'string' ? raw.id : crypto.randomUUID(),
+    createdAt: typeof raw.createdAt === 'number' ? raw.createdAt : Date.now(),
+    note: typeof raw.note === 'string' ? raw.note : undefined,
+    name: typeof raw.name === 'string' ? raw.name : '',
+    content: raw.content,
+    variables: Array.isArray(raw.variables) ? raw.variables.map(String) : extractTemplateVariables(raw.content),
+    defaultValues: raw.defaultValues,
+    variableSchemas: raw.variableSchemas,
+    computedVariables: Array.isArray(raw.computedVariables) ? raw.computedVariables : undefined
+  };
+};
+
+const normalizeComputedVariables = (raw: any): ComputedVariable[] | undefined => {
+  if (!Array.isArray(raw)) return undefined;
+  const computed = raw
+    .filter(c => c && typeof c.name === 'string' && typeof c.expression === 'string')
+    .map(c => ({ name: c.name, expression: c.expression }));
+  return computed.length > 0 ? computed : undefined;
+};
+
+/**
+ * Validate one template from a bundle, filling in fields older app
+ * versions did not write.
+ */
+const normalizeTemplate = (raw: any, index: number): Template => {
+  if (!raw || typeof raw !== 'object') throw new Error(`第 ${index + 1} 个模板格式无效。`);
+  if (typeof raw.content !== 'string') throw new Error(`模板 "${raw.name || index + 1}" 缺少内容。`);
+
+  const name = typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : `Imported Template ${index + 1}`;
+  const variables = extractTemplateVariables(raw.content);
+  const versions = Array.isArray(raw.versions)
+    ? raw.versions.map(normalizeVersion).filter((v: TemplateVersion | null): v is TemplateVersion => v !== null)
+    : [];
+
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : crypto.randomUUID(),
+    name,
+    description: typeof raw.description === 'string' ? raw.description : `Template with ${variables.length} variables`,
+    content: raw.content,
+    variables,
+    defaultValues: raw.defaultValues && typeof raw.defaultValues === 'object' ? raw.defaultValues : undefined,
+    variableSchemas: raw.variableSchemas && typeof raw.variableSchemas === 'object' ? raw.variableSchemas : undefined,
+    computedVariables: normalizeComputedVariables(raw.computedVariables),
+    versions: versions.length > 0 ? versions : undefined,
+    createdAt: typeof raw.createdAt === 'number' ? raw.createdAt : Date.now()
+  };
+};
+
+const isZipFile = async (file: File) => {
+  if (/\.zip$/i.test(file.name)) return true;
+  const header = new Uint8Array(await file.slice(0, 2).arrayBuffer());
+  return header[0] === 0x50 && header[1] === 0x4b; // "PK"
+};
+
+/**
+ * Read a `.json` or `.zip` bundle and return its templates.
+ */
+export const parseTemplateBundle = async (file: File): Promise<Template[]> => {
+  let text: string;
+  if (await isZipFile(file)) {
+    const zip = await JSZip.loadAsync(file);
+    const entry = zip.file(BUNDLE_ENTRY);
+    if (!entry) throw new Error(`ZIP 中未找到 ${BUNDLE_ENTRY}，不是有效的模板包。`);
+    text = await entry.async('string');
+  } else {
+    text = await file.text();
+  }
+
+  let bundle: any;
+  try {
+    bundle = JSON.parse(text);
+  } catch {
+    throw new Error('模板包不是有效的 JSON 文件。');
+  }
+
+  if (bundle?.format !== BUNDLE_FORMAT || !Array.isArray(bundle.templates)) {
+    throw new Error('无法识别的模板包格式。');
+  }
+  if (typeof bundle.version !== 'number' || bundle.version > BUNDLE_VERSION) {
+    throw new Error(`模板包版本 ${bundle.version} 高于当前支持的版本 ${BUNDLE_VERSION}，请升级应用后再导入。`);
+  }
+
+  return bundle.templates.map(normalizeTemplate);
+};
+
+export const findImportConflicts = (existing: Template[], imported: Template[]) => {
+  const existingIds = new Set(existing.map(t => t.id));
+  return imported.filter(t => existingIds.has(t.id));
+};
+
+/**
+ * Decide what to save for every imported template. Conflicts are matched by id.
+ * Version ids are regenerated so they never collide with stored history.
+ */
+export const planTemplateImport = (
+  existing: Template[],
+  imported: Template[],
+  strategy: ImportConflictStrategy
+): ImportPlan => {
+  const existingById = new Map(existing.map(t => [t.id, t]));
+  const existingNames = new Set(existing.map(t => t.name));
+  const plan: ImportPlan = { templates: [], skipped: [] };
+
+  const withFreshVersionIds = (template: Template): Template => ({
+    ...template,
+    versions: template.versions?.map(version => ({ ...version, id: crypto.randomUUID() }))
+  });
+
+  imported.forEach(template => {
+    const current = existingById.get(template.id);
+    if (!current) {
+      plan.templates.push(withFreshVersionIds(template));
+      return;
+    }
+
+    if (strategy === 'skip') {
+      plan.skipped.push(template.name);
+    } else if (strategy === 'overwrite') {
+      // Keep the local history; the import is recorded as a new version on save
+      plan.templates.push({ ...template, createdAt: current.createdAt, versions: undefined });
+    } else {
+      let name = `${template.name} (copy)`;
+      for (let n = 2; existingNames.has(name); n++) name = `${template.name} (copy ${n})`;
+      existingNames.add(name);
+      plan.templates.push(withFreshVersionIds({ ...template, id: crypto.randomUUID(), name, createdAt: Date.now() }));
+    }
+  });
+
+  return plan;
+};
@@ -0,0 +1,255 @@
+import { applyFilters, isKnownFilter, parsePlaceholder, PlaceholderFilter } from './templateFilters.js';
+
+/**
+ * Template language: `{{Variable}}` placeholders (optionally piped through
+ * filters, see templateFilters.ts) plus
+ * `{{#if Var}}…{{else}}…{{/if}}` conditional sections and
+ * `{{#each Name}}…{{/each}}` loops over data rows.
+ *
+ * Inside an each block, `{{Column}}` reads the current row (falling back to
+ * the outer variables), `{{@number}}` is the 1-based row number and
+ * `{{@index}}` the 0-based index.
+ */
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'var'; name: string; filters: PlaceholderFilter[]; raw: string }
+  | { type: 'if'; name: string; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'each'; name: string; body: TemplateNode[] };
+
+type BlockFrame =
+  | { type: 'root'; nodes: TemplateNode[] }
+  | { type: 'if'; node: Extract<TemplateNode, { type: 'if' }>; inElse: boolean; raw: string }
+  | { type: 'each'; node: Extract<TemplateNode, { type: 'each' }>; raw: string };
+
+export type TemplateRow = Record<string, any>;
+
+export interface TemplateCollection {
+  name: string;
+  fields: string[]; // Row columns referenced inside the block
+}
+
+export interface TemplateStructure {
+  variables: string[]; // Scalar variables, in order of first appearance
+  collections: TemplateCollection[];
+  errors: string[];
+}
+
+export interface TemplateRenderContext {
+  values: Record<string, string>;
+  collections?: Record<string, TemplateRow[]>;
+  // Wraps the output of each placeholder outside loops, e.g. to highlight it in a preview
+  decorateVariable?: (name: string, rendered: string) => string;
+}
+
+const TAG_PATTERN = /\{\{([^}]+)\}\}/g;
+// A block tag alone on its line swallows the line, so loops over table rows
+// do not leave blank lines that would split the Markdown table
+const STANDALONE_BLOCK_TAG = /^[ \t]*(\{\{\s*(?:#(?:if|each)\s[^}]*|\/(?:if|each)|else)\s*\}\})[ \t]*\r?\n/gm;
+
+// Column lookup ignores case, spacing and punctuation: {{CAS No}} matches "CAS NO."
+const normalizeKey = (value: string) => value.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+const nodesOf = (frame: BlockFrame): TemplateNode[] => {
+  if (frame.type === 'root') return frame.nodes;
+  if (frame.type === 'each') return frame.node.body;
+  return frame.inElse ? frame.node.otherwise : frame.node.then;
+};
+
+const parseTemplate = (content: string): { nodes: TemplateNode[]; errors: string[] } => {
+  const source = content.replace(STANDALONE_BLOCK_TAG, '$1');
+  const root: BlockFrame = { type: 'root', nodes: [] };
+  const stack: BlockFrame[] = [root];
+  const errors: string[] = [];
+  const top = () => stack[stack.length - 1];
+  const pushText = (value: string) => {
+    if (!value) return;
+    const nodes = nodesOf(top());
+    const last = nodes[nodes.length - 1];
+    if (last?.type === 'text') last.value += value;
+    else nodes.push({ type: 'text', value });
+  };
+
+  let cursor = 0;
+  let match: RegExpExecArray | null;
+  TAG_PATTERN.lastIndex = 0;
+  while ((match = TAG_PATTERN.exec(source)) !== null) {
+    pushText(source.slice(cursor, match.index));
+    cursor = match.index + match[0].length;
+
+    const raw = match[0];
+    const tag = match[1].trim();
+    const open = tag.match(/^#(if|each)\s+(.+)$/);
+    const close = tag.match(/^\/(if|each)$/);
+
+    if (open) {
+      const name = open[2].trim();
+      if (open[1] === 'if') {
+        const node: Extract<TemplateNode, { type: 'if' }> = { type: 'if', name, then: [], otherwise: [] };
+        nodesOf(top()).push(node);
+        stack.push({ type: 'if', node, inElse: false, raw });
+      } else {
+        const node: Extract<TemplateNode, { type: 'each' }> = { type: 'each', name, body: [] };
+        nodesOf(top()).push(node);
+        stack.push({ type: 'each', node, raw });
+      }
+    } else if (close) {
+      const frame = top();
+      if (frame.type === close[1]) {
+        stack.pop();
+      } else {
+        errors.push(`Unexpected ${raw}`);
+        pushText(raw);
+      }
+    } else if (tag === 'else') {
+      const frame = top();
+      if (frame.type === 'if' && !frame.inElse) {
+        frame.inElse = true;
+      } else {
+        errors.push('{{else}} outside of an {{#if}} block');
+        pushText(raw);
+      }
+    } else {
+      const { name, filters } = parsePlaceholder(tag);
+      filters.forEach(filter => {
+        if (!isKnownFilter(filter.name)) errors.push(`Unknown filter "${filter.name}" in ${raw}`);
+      });
+      nodesOf(top()).push({ type: 'var', name, filters, raw });
+    }
+  }
+  pushText(source.slice(cursor));
+
+  // Unclosed blocks are closed at the end of the template
+  stack.slice(1).forEach(frame => {
+    if (frame.type !== 'root') errors.push(`Missing {{/${frame.type}}} for ${frame.raw}`);
+  });
+
+  return { nodes: root.nodes, errors };
+};
+
+/**
+ * Describe the variables and loops used by a template. Variables referenced
+ * only inside `{{#each}}` blocks are row fields, not user variables.
+ */
+export const getTemplateStructure = (content: string): TemplateStructure => {
+  const { nodes, errors } = parseTemplate(content);
+  const variables: string[] = [];
+  const collections = new Map<string, string[]>();
+
+  const add = (list: string[], name: string) => {
+    if (!name.startsWith('@') && !list.includes(name)) list.push(name);
+  };
+
+  const walk = (list: TemplateNode[], fields: string[] | null) => {
+    list.forEach(node => {
+      if (node.type === 'var') {
+        add(fields ?? variables, node.name);
+      } else if (node.type === 'if') {
+        if (!collections.has(node.name)) add(fields ?? variables, node.name);
+        walk(node.then, fields);
+        walk(node.otherwise, fields);
+      } else if (node.type === 'each') {
+        const collectionFields = collections.get(node.name) ?? [];
+        collections.set(node.name, collectionFields);
+        // A name first seen as an if-condition turns out to be a collection
+        const scalarIndex = variables.indexOf(node.name);
+        if (scalarIndex >= 0) variables.splice(scalarIndex, 1);
+        walk(node.body, collectionFields);
+      }
+    });
+  };
+  walk(nodes, null);
+
+  return {
+    variables,
+    collections: Array.from(collections.entries()).map(([name, fields]) => ({ name, fields })),
+    errors
+  };
+};
+
+export const extractTemplateVariables = (content: string) => getTemplateStructure(content).variables;
+
+export const isTruthyValue = (value: unknown) => {
+  if (value === undefined || value === null) return false;
+  const text = String(value).trim().toLowerCase();
+  return text !== '' && text !== 'no data' && text !== 'false';
+};
+
+const stringifyCell = (value: unknown) => {
+  if (value === undefined || value === null) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  return String(value).trim();
+};
+
+export const lookupRowField = (row: TemplateRow, name: string): string | undefined => {
+  if (Object.prototype.hasOwnProperty.call(row, name)) return stringifyCell(row[name]);
+  const wanted = normalizeKey(name);
+  const key = Object.keys(row).find(k => normalizeKey(k) === wanted);
+  return key === undefined ? undefined : stringifyCell(row[key]);
+};
+
+interface Scope {
+  row?: TemplateRow;
+  index?: number;
+  parent?: Scope;
+}
+
+/**
+ * Render a template. Placeholders outside loops without a value in the context
+ * (e.g. the page variables resolved later by the PDF renderer) are left untouched.
+ */
+export const renderTemplate = (content: string, context: TemplateRenderContext): string => {
+  const { nodes } = parseTemplate(content);
+  const collections = context.collections ?? {};
+
+  const resolve = (name: string, scope: Scope): string | undefined => {
+    for (let s: Scope | undefined = scope; s; s = s.parent) {
+      if (!s.row) continue;
+      if (name === '@index') return String(s.index);
+      if (name === '@number') return String((s.index ?? 0) + 1);
+      const value = lookupRowField(s.row, name);
+      if (value !== undefined) return value;
+    }
+    if (Object.prototype.hasOwnProperty.call(context.values, name)) return context.values[name] ?? '';
+    return undefined;
+  };
+
+  const render = (list: TemplateNode[], scope: Scope): string => list.map(node => {
+    switch (node.type) {
+      case 'text':
+        return node.value;
+      case 'var': {
+        const value = resolve(node.name, scope);
+        // Columns missing from a row render empty rather than leaking the placeholder
+        if (scope.row) return applyFilters(value ?? '', node.filters);
+        const rendered = value !== undefined ? applyFilters(value, node.filters) : node.raw;
+        return context.decorateVariable ? context.decorateVariable(node.name, rendered) : rendered;
+      }
+      case 'if': {
+        const rows = collections[node.name];
+        const truthy = rows ? rows.length > 0 : isTruthyValue(resolve(node.name, scope));
+        return render(truthy ? node.then : node.otherwise, scope);
+      }
+      case 'each': {
+        const rows = collections[node.name] ?? [];
+        return rows.map((row, index) => render(node.body, { row, index, parent: scope })).join('');
+      }
+      default:
+        return '';
+    }
+  }).join('');
+
+  return render(nodes, {});
+};
+
+/**
+ * Bind every loop in the template to the same set of rows
+ * (the rows selected in the data grid).
+ */
+export const bindCollections = (content: string, rows: TemplateRow[]): Record<string, TemplateRow[]> => {
+  const bound: Record<string, TemplateRow[]> = {};
+  getTemplateStructure(content).collections.forEach(collection => {
+    bound[collection.name] = rows;
+  });
+  return bound;
+};
@@ -0,0 +1,147 @@
+/**
+ * Placeholder filters: `{{ReportDate | date:"YYYY-MM-DD"}}`, `{{Name | upper}}`,
+ * `{{Weight | number:2}}`, `{{Tel | default:"N/A"}}`.
+ * Filters run left to right on the string value of the placeholder.
+ */
+
+export interface PlaceholderFilter {
+  name: string;
+  args: string[];
+}
+
+type FilterFn = (value: string, args: string[]) => string;
+
+// Excel serial day 0 is 1899-12-30 (accounting for the 1900 leap-year bug)
+const EXCEL_EPOCH_UTC = Date.UTC(1899, 11, 30);
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+// Smaller numbers are far more likely to be plain numbers or years than dates
+const MIN_EXCEL_DATE_SERIAL = 10000;
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+const parseNumber = (value: string): number | null => {
+  const normalized = value.trim().replace(/,/g, '').replace(/%$/, '');
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(normalized)) return null;
+  return Number(normalized);
+};
+
+/**
+ * Parse an Excel serial number, ISO date or `YYYY/MM/DD`-style string.
+ * Returns the date as UTC midnight so formatting never shifts by a day.
+ */
+export const parseDateValue = (value: string): Date | null => {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  const serial = parseNumber(trimmed);
+  if (serial !== null) {
+    if (serial < MIN_EXCEL_DATE_SERIAL) return null;
+    return new Date(EXCEL_EPOCH_UTC + Math.floor(serial) * MS_PER_DAY);
+  }
+
+  const ymd = trimmed.match(/^(\d{4})[-/.年](\d{1,2})[-/.月](\d{1,2})日?/);
+  if (ymd) return new Date(Date.UTC(Number(ymd[1]), Number(ymd[2]) - 1, Number(ymd[3])));
+
+  const dmy = trimmed.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/);
+  if (dmy) return new Date(Date.UTC(Number(dmy[3]), Number(dmy[2]) - 1, Number(dmy[1])));
+
+  const parsed = Date.parse(trimmed);
+  if (Number.isNaN(parsed)) return null;
+  const date = new Date(parsed);
+  return new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+};
+
+export const formatDate = (date: Date, format: string) => {
+  const tokens: Record<string, string> = {
+    YYYY: String(date.getUTCFullYear()),
+    YY: String(date.getUTCFullYear()).slice(-2),
+    MMM: MONTH_NAMES[date.getUTCMonth()],
+    MM: pad(date.getUTCMonth() + 1),
+    M: String(date.getUTCMonth() + 1),
+    DD: pad(date.getUTCDate()),
+    D: String(date.getUTCDate())
+  };
+  return format.replace(/YYYY|YY|MMM|MM|M|DD|D/g, token => tokens[token]);
+};
+
+const FILTERS: Record<string, FilterFn> = {
+  upper: value => value.toUpperCase(),
+  lower: value => value.toLowerCase(),
+  capitalize: value => value.replace(/\b\p{L}/gu, c => c.toUpperCase()),
+  trim: value => value.trim(),
+  default: (value, [fallback = '']) => (value.trim() === '' ? fallback : value),
+  date: (value, [format = 'YYYY-MM-DD']) => {
+    const date = parseDateValue(value);
+    return date ? formatDate(date, format) : value;
+  },
+  number: (value, [decimals]) => {
+    const n = parseNumber(value);
+    if (n === null) return value;
+    // Without an argument only strip floating point noise such as 12.300000000000001
+    return decimals === undefined ? String(Number(n.toPrecision(12))) : n.toFixed(Number(decimals) || 0);
+  },
+  percent: (value, [decimals = '0']) => {
+    const n = parseNumber(value);
+    return n === null ? value : `${(n * 100).toFixed(Number(decimals) || 0)}%`;
+  },
+  replace: (value, [search = '', replacement = '']) => (search ? value.split(search).join(replacement) : value),
+  truncate: (value, [length]) => {
+    const max = Number(length);
+    return Number.isFinite(max) && max > 0 && value.length > max ? `${value.slice(0, max)}…` : value;
+  }
+};
+
+export const TEMPLATE_FILTER_NAMES = Object.keys(FILTERS);
+
+export const isKnownFilter = (name: string) => Object.prototype.hasOwnProperty.call(FILTERS, name);
+
+/**
+ * Split on a separator, ignoring separators inside double or single quotes.
+ */
+const splitOutsideQuotes = (input: string, separator: string) => {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  for (const char of input) {
+    if (quote) {
+      if (char === quote) quote = null;
+      current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+    } else if (char === separator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+};
+
+const unquote = (value: string) => {
+  const trimmed = value.trim();
+  const match = trimmed.match(/^(["'])([\s\S]*)\1$/);
+  return match ? match[2] : trimmed;
+};
+
+/**
+ * Split a placeholder body such as `Weight | number:2` into the variable name
+ * and its filter chain.
+ */
+export const parsePlaceholder = (body: string): { name: string; filters: PlaceholderFilter[] } => {
+  const [name, ...rawFilters] = splitOutsideQuotes(body, '|');
+  const filters = rawFilters
+    .map(raw => {
+      const [filterName, ...args] = splitOutsideQuotes(raw, ':');
+      return { name: filterName.trim(), args: args.map(unquote) };
+    })
+    .filter(filter => filter.name);
+  return { name: name.trim(), filters };
+};
+
+export const applyFilters = (value: string, filters: PlaceholderFilter[]) =>
+  filters.reduce((current, filter) => (isKnownFilter(filter.name) ? FILTERS[filter.name](current, filter.args) : current), value);
@@ -0,0 +1,124 @@
+import { Template, TemplateVersion } from '../types';
+
+// Oldest versions are dropped beyond this limit to keep storage bounded
+export const MAX_TEMPLATE_VERSIONS = 50;
+
+export type DiffLineType = 'same' | 'added' | 'removed' | 'changed';
+
+export interface DiffRow {
+  type: DiffLineType;
+  left?: string;
+  right?: string;
+  leftNumber?: number;
+  rightNumber?: number;
+}
+
+export const createTemplateVersion = (template: Template, note?: string): TemplateVersion => ({
+  id: crypto.randomUUID(),
+  createdAt: Date.now(),
+  note: note?.trim() || undefined,
+  name: template.name,
+  content: template.content,
+  variables: template.variables,
+  defaultValues: template.defaultValues,
+  variableSchemas: template.variableSchemas,
+  computedVariables: template.computedVariables
+});
+
+const isSameSnapshot = (version: TemplateVersion, template: Template) =>
+  version.name === template.name &&
+  version.content === template.content &&
+  JSON.stringify(version.variableSchemas ?? {}) === JSON.stringify(template.variableSchemas ?? {}) &&
+  JSON.stringify(version.computedVariables ?? []) === JSON.stringify(template.computedVariables ?? []);
+
+/**
+ * Append a snapshot of `updated` to its history. Templates saved before
+ * versioning existed get their previous state recorded first so the very
+ * first overwrite can still be rolled back.
+ */
+export const withNewVersion = (previous: Template | undefined, updated: Template, note?: string): Template => {
+  let versions = updated.versions ?? previous?.versions ?? [];
+  if (versions.length === 0 && previous && previous.content !== updated.content) {
+    versions = [{ ...createTemplateVersion(previous, 'Initial version'), createdAt: previous.createdAt }];
+  }
+
+  const latest = versions[versions.length - 1];
+  if (latest && isSameSnapshot(latest, updated) && !note?.trim()) {
+    return { ...updated, versions };
+  }
+
+  const next = [...versions, createTemplateVersion(updated, note)];
+  return { ...updated, versions: next.slice(-MAX_TEMPLATE_VERSIONS) };
+};
+
+/**
+ * Apply a stored version to the template. The returned template keeps the
+ * full history; saving it through `withNewVersion` records the rollback itself.
+ */
+export const restoreTemplateVersion = (template: Template, version: TemplateVersion): Template => ({
+  ...template,
+  name: version.name,
+  content: version.content,
+  variables: version.variables,
+  defaultValues: version.defaultValues,
+  variableSchemas: version.variableSchemas,
+  computedVariables: version.computedVariables
+});
+
+export const getVersionLabel = (template: Template, version: TemplateVersion) => {
+  const index = (template.versions ?? []).findIndex(v => v.id === version.id);
+  return `v${index + 1}`;
+};
+
+/**
+ * Line-based LCS diff, paired up into side-by-side rows. Adjacent removed/added
+ * runs are zipped together as "changed" rows.
+ */
+export const diffLines = (before: string, after: string): DiffRow[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const n = a.length;
+  const m = b.length;
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let removed: DiffRow[] = [];
+  let added: DiffRow[] = [];
+
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) {
+      rows.push({ type: 'changed', left: removed[k].left, leftNumber: removed[k].leftNumber, right: added[k].right, rightNumber: added[k].rightNumber });
+    }
+    rows.push(...removed.slice(paired), ...added.slice(paired));
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && a[i] === b[j]) {
+      flush();
+      rows.push({ type: 'same', left: a[i], right: b[j], leftNumber: i + 1, rightNumber: j + 1 });
+      i++;
+      j++;
+    } else if (j < m && (i >= n || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      added.push({ type: 'added', right: b[j], rightNumber: j + 1 });
+      j++;
+    } else {
+      removed.push({ type: 'removed', left: a[i], leftNumber: i + 1 });
+      i++;
+    }
+  }
+  flush();
+
+  return rows;
+};
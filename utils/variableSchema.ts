@@ -0,0 +1,163 @@
+import { Template, VariableSchema, VariableType } from '../types';
+
+export const VARIABLE_TYPES: { value: VariableType; label: string }[] = [
+  { value: 'string', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'date', label: 'Date' },
+  { value: 'email', label: 'Email' },
+  { value: 'phone', label: 'Phone' },
+  { value: 'percentage', label: 'Percentage' },
+  { value: 'enum', label: 'Choice' }
+];
+
+export const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD';
+
+export interface VariableIssue {
+  variable: string;
+  message: string;
+  blocking: boolean; // Required values block export; format problems only warn
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[\d\s\-()（）./]+(\s*(ext\.?|x|转)\s*\d+)?$/i;
+const NUMBER_PATTERN = /^[-+]?\d+(\.\d+)?$/;
+// Accepts "12.5", "12.5%", "<1%", "10-20%", "10~20 %"
+const PERCENTAGE_PATTERN = /^[<>≤≥]?\s*(\d+(?:\.\d+)?)\s*%?(?:\s*[-~–]\s*(\d+(?:\.\d+)?)\s*%?)?$/;
+const LOOSE_DATE_PATTERN = /^(\d{4})[-/.年](\d{1,2})[-/.月](\d{1,2})日?$/;
+
+/**
+ * Guess a schema from the variable name. Only used to seed the schema editor;
+ * templates without a stored schema are treated as free text.
+ */
+export const inferVariableSchema = (variable: string): VariableSchema => {
+  if (/date|日期/i.test(variable)) return { type: 'date', format: DEFAULT_DATE_FORMAT };
+  if (/e-?mail|邮箱/i.test(variable)) return { type: 'email' };
+  if (/tel|phone|fax|mobile|电话|传真/i.test(variable)) return { type: 'phone' };
+  if (/percent|weight|concentration|含量|%/i.test(variable)) return { type: 'percentage', min: 0, max: 100 };
+  return { type: 'string' };
+};
+
+export const getVariableSchema = (template: Template, variable: string): VariableSchema => {
+  return template.variableSchemas?.[variable] ?? { type: 'string' };
+};
+
+export const isNoDataValue = (value?: string) => (value || '').trim().toLowerCase() === 'no data';
+
+const isValidCalendarDate = (year: number, month: number, day: number) => {
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+};
+
+const validateDate = (value: string, format?: string): string | null => {
+  if (!format) {
+    const loose = value.match(LOOSE_DATE_PATTERN);
+    if (loose && isValidCalendarDate(Number(loose[1]), Number(loose[2]), Number(loose[3]))) return null;
+    return Number.isNaN(Date.parse(value)) ? 'Not a valid date' : null;
+  }
+
+  // Translate YYYY/MM/DD tokens into a regex with named groups
+  const escaped = format.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const source = escaped
+    .replace('YYYY', '(?<year>\\d{4})')
+    .replace('MM', '(?<month>\\d{2})')
+    .replace('DD', '(?<day>\\d{2})');
+  const match = value.match(new RegExp(`^${source}$`));
+  if (!match?.groups) return `Expected date format ${format}`;
+
+  const { year, month, day } = match.groups;
+  if (year && month && day && !isValidCalendarDate(Number(year), Number(month), Number(day))) {
+    return 'Not a valid calendar date';
+  }
+  return null;
+};
+
+const checkRange = (numbers: number[], schema: VariableSchema): string | null => {
+  for (const n of numbers) {
+    if (schema.min !== undefined && n < schema.min) return `Must be at least ${schema.min}`;
+    if (schema.max !== undefined && n > schema.max) return `Must be at most ${schema.max}`;
+  }
+  return null;
+};
+
+/**
+ * Validate one value against its schema. Returns an error message or null.
+ * "No data" is accepted for optional variables without further checks.
+ */
+export const validateVariableValue = (value: string | undefined, schema: VariableSchema): string | null => {
+  const trimmed = (value || '').trim();
+
+  if (!trimmed) return schema.required ? 'Required' : null;
+  if (isNoDataValue(trimmed)) return schema.required ? 'Required: "No data" is not allowed' : null;
+
+  switch (schema.type) {
+    case 'number': {
+      const normalized = trimmed.replace(/,/g, '');
+      if (!NUMBER_PATTERN.test(normalized)) return 'Must be a number';
+      const rangeError = checkRange([Number(normalized)], schema);
+      if (rangeError) return rangeError;
+      break;
+    }
+    case 'percentage': {
+      const match = trimmed.match(PERCENTAGE_PATTERN);
+      if (!match) return 'Must be a percentage, e.g. 12.5%';
+      const numbers = [match[1], match[2]].filter(Boolean).map(Number);
+      const rangeError = checkRange(numbers, { ...schema, min: schema.min ?? 0, max: schema.max ?? 100 });
+      if (rangeError) return rangeError;
+      break;
+    }
+    case 'date': {
+      const dateError = validateDate(trimmed, schema.format);
+      if (dateError) return dateError;
+      break;
+    }
+    case 'email':
+      if (!EMAIL_PATTERN.test(trimmed)) return 'Not a valid email address';
+      break;
+    case 'phone':
+      if (!PHONE_PATTERN.test(trimmed) || trimmed.replace(/\D/g, '').length < 5) return 'Not a valid phone number';
+      break;
+    case 'enum':
+      if (schema.options && schema.options.length > 0 && !schema.options.includes(trimmed)) {
+        return `Must be one of: ${schema.options.join(', ')}`;
+      }
+      break;
+    default:
+      break;
+  }
+
+  // Length limits for text-like types
+  if (schema.type !== 'number' && schema.type !== 'percentage') {
+    if (schema.min !== undefined && trimmed.length < schema.min) return `Must be at least ${schema.min} characters`;
+    if (schema.max !== undefined && trimmed.length > schema.max) return `Must be at most ${schema.max} characters`;
+  }
+
+  if (schema.pattern) {
+    try {
+      if (!new RegExp(schema.pattern).test(trimmed)) return `Does not match pattern ${schema.pattern}`;
+    } catch (e) {
+      console.warn(`Invalid validation pattern "${schema.pattern}"`, e);
+    }
+  }
+
+  return null;
+};
+
+export const validateVariables = (
+  template: Template,
+  variables: string[],
+  values: Record<string, string>
+): VariableIssue[] => {
+  const issues: VariableIssue[] = [];
+  variables.forEach(variable => {
+    const schema = getVariableSchema(template, variable);
+    const message = validateVariableValue(values[variable], schema);
+    if (!message) return;
+    const trimmed = (values[variable] || '').trim();
+    issues.push({
+      variable,
+      message,
+      blocking: Boolean(schema.required) && (!trimmed || isNoDataValue(trimmed))
+    });
+  });
+  return issues;
+};
@@ -0,0 +1,89 @@
+import { ExcelData, ExcelSheet } from '../types';
+import { bindCollections, lookupRowField, TemplateRow } from './templateEngine';
+
+/**
+ * Multi-sheet workbooks: `ExcelData.headers/rows` always mirror the active
+ * sheet, while `sheets` keeps every sheet so templates can reference
+ * `{{Sheet.Column}}` and loop over `{{#each Sheet}}`.
+ */
+
+const normalizeName = (value: string) => value.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+/**
+ * Every sheet of the workbook. Datasets stored before multi-sheet support
+ * are treated as a single sheet.
+ */
+export const getWorkbookSheets = (data: ExcelData): ExcelSheet[] => {
+  if (data.sheets && data.sheets.length > 0) return data.sheets;
+  return [{ name: data.activeSheet || 'Sheet1', headers: data.headers, rows: data.rows, keyValues: data.keyValues }];
+};
+
+const isActiveSheet = (data: ExcelData, sheet: ExcelSheet) => !data.sheets?.length || sheet.name === data.activeSheet;
+
+export const findSheet = (data: ExcelData, name: string): ExcelSheet | undefined => {
+  const sheets = getWorkbookSheets(data);
+  const wanted = normalizeName(name);
+  return sheets.find(sheet => sheet.name === name) || sheets.find(sheet => normalizeName(sheet.name) === wanted);
+};
+
+/**
+ * Make another sheet the active one. Edits to the current rows (e.g. reordering
+ * in the data grid) are written back to their sheet first.
+ */
+export const selectSheet = (data: ExcelData, name: string): ExcelData => {
+  const sheets = getWorkbookSheets(data).map(sheet =>
+    sheet.name === data.activeSheet ? { ...sheet, headers: data.headers, rows: data.rows } : sheet
+  );
+  const target = sheets.find(sheet => sheet.name === name);
+  if (!target) return data;
+  return { ...data, sheets, activeSheet: target.name, headers: target.headers, rows: target.rows };
+};
+
+/**
+ * Split `Sheet.Column` into its sheet and column. Sheet names may contain
+ * dots themselves, so the longest matching sheet name wins.
+ */
+export const parseSheetReference = (data: ExcelData, reference: string): { sheet: ExcelSheet; column: string } | null => {
+  if (!data.sheets || data.sheets.length === 0) return null;
+  let best: { sheet: ExcelSheet; column: string } | null = null;
+  for (let i = reference.indexOf('.'); i > 0; i = reference.indexOf('.', i + 1)) {
+    const sheet = findSheet(data, reference.slice(0, i).trim());
+    const column = reference.slice(i + 1).trim();
+    if (sheet && column) best = { sheet, column };
+  }
+  return best;
+};
+
+/**
+ * Value of a `Sheet.Column` variable: a key/value pair on that sheet, otherwise
+ * the column of its first data row.
+ */
+export const resolveSheetReference = (data: ExcelData, reference: string): string | undefined => {
+  const parsed = parseSheetReference(data, reference);
+  if (!parsed) return undefined;
+  const { sheet, column } = parsed;
+
+  const wanted = normalizeName(column);
+  const key = Object.keys(sheet.keyValues || {}).find(k => normalizeName(k) === wanted);
+  if (key) return sheet.keyValues![key];
+
+  return sheet.rows.length > 0 ? lookupRowField(sheet.rows[0], column) : undefined;
+};
+
+/**
+ * Rows for `{{#each}}` loops and `Table.Column` expression references.
+ * Every sheet is available by name; loops that do not name another sheet
+ * iterate `rows` (the rows selected in the active sheet).
+ */
+export const bindWorkbookCollections = (content: string, data: ExcelData, rows: TemplateRow[]): Record<string, TemplateRow[]> => {
+  const bound: Record<string, TemplateRow[]> = {};
+  getWorkbookSheets(data).forEach(sheet => {
+    bound[sheet.name] = isActiveSheet(data, sheet) ? rows : sheet.rows;
+  });
+
+  Object.entries(bindCollections(content, rows)).forEach(([name, loopRows]) => {
+    const sheet = findSheet(data, name);
+    bound[name] = sheet && !isActiveSheet(data, sheet) ? sheet.rows : loopRows;
+  });
+  return bound;
+};